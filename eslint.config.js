@@ -1,14 +1,23 @@
 import antfu from '@antfu/eslint-config'
 
-export default antfu({
-  rules: {
-    'antfu/consistent-list-newline': 'off',
-    'style/quote-props': 'off',
-    'style/indent': 'off',
-    'style/brace-style': ['error', '1tbs'],
-    'style/arrow-parens': 'off',
-    'style/member-delimiter-style': 'off',
-    'style/operator-linebreak': 'off',
-    curly: 'off',
+export default antfu(
+  {
+    rules: {
+      'antfu/consistent-list-newline': 'off',
+      'style/quote-props': 'off',
+      'style/indent': 'off',
+      'style/brace-style': ['error', '1tbs'],
+      'style/arrow-parens': 'off',
+      'style/member-delimiter-style': 'off',
+      'style/operator-linebreak': 'off',
+      curly: 'off',
+    },
   },
-})
+  {
+    // The rule mistakes `bench` for `test`.
+    files: ['**/*.bench.ts'],
+    rules: {
+      'test/consistent-test-it': 'off',
+    },
+  },
+)
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import { createSSRApp, h } from 'vue'
+import { renderToString } from 'vue/server-renderer'
+import { SearchHighlight } from './index'
+
+describe('<SearchHighlight>', () => {
+  it('wraps matched segments in <mark> elements', async () => {
+    const html = await renderToString(
+      createSSRApp({
+        render: () => h(SearchHighlight, { text: 'Belcher', ranges: [[2, 5]] }),
+      }),
+    )
+
+    expect(html).toBe('<!--[-->Be<mark>lch</mark>er<!--]-->')
+  })
+
+  it('passes the segments to the default slot', async () => {
+    const html = await renderToString(
+      createSSRApp({
+        render: () =>
+          h(
+            SearchHighlight,
+            { text: 'Bob', ranges: [[0, 1]] },
+            {
+              default: ({ segments }: { segments: { text: string }[] }) =>
+                segments.map((segment) => h('span', segment.text)),
+            },
+          ),
+      }),
+    )
+
+    expect(html).toBe('<!--[--><span>B</span><span>ob</span><!--]-->')
+  })
+})
@@ -0,0 +1,51 @@
+import { type PropType, computed, defineComponent, h } from 'vue'
+import { type MatchRange, highlight } from '../../composables/useSearch'
+
+/**
+ * Renderless component that splits a text into matched and unmatched
+ * segments, using the ranges reported by the `matches` of `useSearch`. The
+ * segments are passed to the default slot. Without a slot, matched segments
+ * are wrapped in `<mark>` elements.
+ *
+ * @example
+ * ```vue
+ * <SearchHighlight :text="match.term" :ranges="match.ranges" v-slot="{ segments }">
+ *   <template v-for="segment in segments">
+ *     <strong v-if="segment.match">{{ segment.text }}</strong>
+ *     <template v-else>{{ segment.text }}</template>
+ *   </template>
+ * </SearchHighlight>
+ * ```
+ */
+export const SearchHighlight = defineComponent({
+  name: 'SearchHighlight',
+
+  props: {
+    /**
+     * Text to highlight.
+     */
+    text: {
+      type: String,
+      required: true,
+    },
+
+    /**
+     * Matched character ranges of the text.
+     */
+    ranges: {
+      type: Array as PropType<readonly MatchRange[]>,
+      default: () => [],
+    },
+  },
+
+  setup(props, { slots }) {
+    const segments = computed(() => highlight(props.text, props.ranges))
+
+    return () =>
+      slots.default
+        ? slots.default({ segments: segments.value })
+        : segments.value.map((segment) =>
+            segment.match ? h('mark', segment.text) : segment.text,
+          )
+  },
+})
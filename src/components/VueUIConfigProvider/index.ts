@@ -0,0 +1,34 @@
+import { type PropType, defineComponent } from 'vue'
+import { type VueUIConfig, provideVueUIConfig } from '../../plugin'
+
+/**
+ * Renderless component that overrides the config of `createVueUI` for its
+ * slot. The config is merged per composable with the config of the parent,
+ * and read when the composables are called.
+ *
+ * @example
+ * ```vue
+ * <VueUIConfigProvider :config="{ search: { caseSensitive: true } }">
+ *   <ProductSearch />
+ * </VueUIConfigProvider>
+ * ```
+ */
+export const VueUIConfigProvider = defineComponent({
+  name: 'VueUIConfigProvider',
+
+  props: {
+    /**
+     * Config for the composables of the slot.
+     */
+    config: {
+      type: Object as PropType<VueUIConfig>,
+      required: true,
+    },
+  },
+
+  setup(props, { slots }) {
+    provideVueUIConfig(props.config)
+
+    return () => slots.default?.()
+  },
+})
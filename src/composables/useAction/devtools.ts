@@ -0,0 +1,220 @@
+import type { App } from 'vue'
+import type { ActionRegistry, ActionRun, ActionRunStatus } from './registry'
+
+const INSPECTOR_ID = 'modernice-vue-ui-actions'
+const LAYER_ID = 'modernice-vue-ui-actions'
+
+/**
+ * The parts of the Vue Devtools plugin API that are used by
+ * {@link setupActionDevtools}. Matches the API of `@vue/devtools-api`, so
+ * that the package is not required at runtime.
+ */
+export interface ActionDevtoolsApi {
+  now: () => number
+  addInspector: (options: { id: string; label: string; icon?: string }) => void
+  addTimelineLayer: (options: {
+    id: string
+    label: string
+    color: number
+  }) => void
+  addTimelineEvent: (options: {
+    layerId: string
+    event: {
+      time: number
+      title: string
+      subtitle?: string
+      groupId?: number
+      logType?: 'default' | 'warning' | 'error'
+      data: Record<string, unknown>
+    }
+  }) => void
+  sendInspectorTree: (inspectorId: string) => void
+  sendInspectorState: (inspectorId: string) => void
+  on: {
+    getInspectorTree: (
+      handler: (payload: {
+        inspectorId: string
+        filter: string
+        rootNodes: unknown[]
+      }) => void,
+    ) => void
+    getInspectorState: (
+      handler: (payload: {
+        inspectorId: string
+        nodeId: string
+        state: unknown
+      }) => void,
+    ) => void
+  }
+}
+
+/**
+ * The global hook of the Vue Devtools.
+ */
+export interface DevtoolsHook {
+  emit: (
+    event: 'devtools-plugin:setup',
+    descriptor: Record<string, unknown>,
+    setup: (api: ActionDevtoolsApi) => void,
+  ) => void
+}
+
+/**
+ * Defines configuration options for {@link setupActionDevtools}.
+ */
+export interface ActionDevtoolsOptions {
+  /**
+   * Maximum number of settled runs that are listed in the inspector.
+   *
+   * @default 100
+   */
+  maxRuns?: number
+
+  /**
+   * Hook of the Vue Devtools.
+   *
+   * @default globalThis.__VUE_DEVTOOLS_GLOBAL_HOOK__
+   */
+  hook?: DevtoolsHook
+}
+
+/**
+ * Colors of the status tags, as hex strings because Prettier and ESLint
+ * disagree on the casing of hex literals.
+ */
+const statusColors: Record<ActionRunStatus, string> = {
+  pending: '3b82f6',
+  success: '42b883',
+  error: 'ef4444',
+  cancelled: '9ca3af',
+}
+
+/**
+ * Adds an inspector that lists the runs of the registered actions, and a
+ * timeline layer with the start and outcome of each run, to the Vue
+ * Devtools. Does nothing if the Vue Devtools are not installed. Enabled by
+ * the `devtools` option of `createVueUI`.
+ *
+ * Returns a function that stops reporting runs.
+ */
+export function setupActionDevtools(
+  app: App,
+  registry: ActionRegistry,
+  options?: ActionDevtoolsOptions,
+) {
+  const hook =
+    options?.hook ??
+    (globalThis as { __VUE_DEVTOOLS_GLOBAL_HOOK__?: DevtoolsHook })
+      .__VUE_DEVTOOLS_GLOBAL_HOOK__
+  if (!hook) {
+    return () => {}
+  }
+
+  const maxRuns = options?.maxRuns ?? 100
+
+  /**
+   * Pending and settled runs, most recent first.
+   */
+  let runs: ActionRun[] = []
+  let unsubscribe = () => {}
+
+  hook.emit(
+    'devtools-plugin:setup',
+    {
+      id: 'modernice.vue-ui',
+      label: 'Vue UI',
+      packageName: '@modernice/vue-ui',
+      componentStateTypes: [],
+      app,
+    },
+    (api) => {
+      api.addInspector({ id: INSPECTOR_ID, label: 'Actions', icon: 'bolt' })
+      api.addTimelineLayer({
+        id: LAYER_ID,
+        label: 'Actions',
+        color: color(statusColors.success),
+      })
+
+      api.on.getInspectorTree((payload) => {
+        if (payload.inspectorId !== INSPECTOR_ID) {
+          return
+        }
+
+        const filter = payload.filter.toLowerCase()
+        payload.rootNodes = runs
+          .filter((run) => run.name.toLowerCase().includes(filter))
+          .map((run) => ({
+            id: String(run.id),
+            label: run.name,
+            tags: [
+              {
+                label: run.status,
+                textColor: color('ffffff'),
+                backgroundColor: color(statusColors[run.status]),
+              },
+            ],
+          }))
+      })
+
+      api.on.getInspectorState((payload) => {
+        if (payload.inspectorId !== INSPECTOR_ID) {
+          return
+        }
+
+        const run = runs.find((run) => String(run.id) === payload.nodeId)
+        if (run) {
+          payload.state = {
+            run: Object.entries(describe(run)).map(([key, value]) => ({
+              key,
+              value,
+            })),
+          }
+        }
+      })
+
+      unsubscribe = registry.subscribe(({ type, run }) => {
+        if (type === 'start') {
+          runs = [run, ...runs]
+          const settled = runs.filter((run) => run.status !== 'pending')
+          if (settled.length > maxRuns) {
+            const dropped = new Set(settled.slice(maxRuns))
+            runs = runs.filter((run) => !dropped.has(run))
+          }
+        }
+
+        api.addTimelineEvent({
+          layerId: LAYER_ID,
+          event: {
+            time: api.now(),
+            title: run.name,
+            subtitle: type === 'start' ? 'started' : run.status,
+            groupId: run.id,
+            logType: run.status === 'error' ? 'error' : 'default',
+            data: describe(run),
+          },
+        })
+
+        api.sendInspectorTree(INSPECTOR_ID)
+        api.sendInspectorState(INSPECTOR_ID)
+      })
+    },
+  )
+
+  return () => unsubscribe()
+}
+
+function describe(run: ActionRun): Record<string, unknown> {
+  return {
+    name: run.name,
+    status: run.status,
+    args: run.args,
+    startedAt: new Date(run.startedAt).toISOString(),
+    duration: run.duration,
+    result: run.result,
+    error: run.error,
+  }
+}
+
+function color(hex: string) {
+  return Number.parseInt(hex, 16)
+}
@@ -0,0 +1,213 @@
+/**
+ * Lifecycle hooks of an action. Hooks configured through
+ * {@link createUseAction} are called before the hooks passed to `useAction`.
+ * Runs that are dropped or cancelled only call `onBefore`. Errors thrown by
+ * `onSuccess`, `onError` and `onSettled` are logged to the console and do not
+ * affect the outcome of the run.
+ */
+export interface ActionHooks<
+  TArgs extends readonly unknown[] = unknown[],
+  TResult = unknown,
+  TError = Error | string,
+> {
+  /**
+   * Called before the action is executed. If it throws, the action is not
+   * executed and the run fails with the thrown error.
+   */
+  onBefore?: (ctx: ActionHookContext<TArgs>) => void
+
+  /**
+   * Called after the action returned successfully.
+   */
+  onSuccess?: (ctx: ActionSuccessContext<TArgs, TResult>) => void
+
+  /**
+   * Called after the action failed, with the error returned by `parseError`.
+   * When retries are enabled, only the final failure is reported.
+   */
+  onError?: (ctx: ActionErrorContext<TArgs, TError>) => void
+
+  /**
+   * Called after `onSuccess` or `onError`.
+   */
+  onSettled?: (ctx: ActionSettledContext<TArgs, TResult, TError>) => void
+}
+
+/**
+ * Context that is passed to the `onBefore` hook.
+ */
+export interface ActionHookContext<TArgs extends readonly unknown[]> {
+  /**
+   * Arguments passed to `run`.
+   */
+  args: TArgs
+}
+
+/**
+ * Context that is passed to the `onSuccess` hook.
+ */
+export interface ActionSuccessContext<
+  TArgs extends readonly unknown[],
+  TResult,
+> extends ActionHookContext<TArgs> {
+  /**
+   * Value returned by the action.
+   */
+  result: TResult
+
+  /**
+   * Duration of the run in milliseconds.
+   */
+  duration: number
+}
+
+/**
+ * Context that is passed to the `onError` hook.
+ */
+export interface ActionErrorContext<
+  TArgs extends readonly unknown[],
+  TError,
+> extends ActionHookContext<TArgs> {
+  /**
+   * Error returned by `parseError`.
+   */
+  error: TError
+
+  /**
+   * Error that was thrown by the action.
+   */
+  cause: Error
+
+  /**
+   * Duration of the run in milliseconds.
+   */
+  duration: number
+}
+
+/**
+ * Context that is passed to the `onSettled` hook.
+ */
+export interface ActionSettledContext<
+  TArgs extends readonly unknown[],
+  TResult,
+  TError,
+> extends ActionHookContext<TArgs> {
+  /**
+   * Value returned by the action, or `null` if it failed.
+   */
+  result: TResult | null
+
+  /**
+   * Error returned by `parseError`, or `null` if the action succeeded.
+   */
+  error: TError | null
+
+  /**
+   * Duration of the run in milliseconds.
+   */
+  duration: number
+}
+
+/**
+ * Middleware that wraps the execution of an action. It receives the current
+ * {@link MiddlewareContext} and a `next` function that calls the next
+ * middleware, or the action itself. Middleware can transform the arguments by
+ * passing them to `next`, and transform results and errors by handling the
+ * {@link Promise} returned by `next`.
+ *
+ * @example
+ * ```ts
+ * const refreshAuth: ActionMiddleware = async (ctx, next) => {
+ *   try {
+ *     return await next()
+ *   } catch (e) {
+ *     if (!isUnauthorized(e)) throw e
+ *     await refreshToken()
+ *     return next()
+ *   }
+ * }
+ * ```
+ */
+export type ActionMiddleware = (
+  ctx: MiddlewareContext,
+  next: (args?: unknown[]) => Promise<unknown>,
+) => unknown
+
+/**
+ * Context that is passed to an {@link ActionMiddleware}.
+ */
+export interface MiddlewareContext {
+  /**
+   * Arguments that are passed to the next middleware if `next` is called
+   * without arguments.
+   */
+  args: unknown[]
+
+  /**
+   * Aborted when the run is cancelled or replaced by a newer run.
+   */
+  signal: AbortSignal
+
+  /**
+   * Number of the current attempt, starting at `1`.
+   */
+  attempt: number
+}
+
+/**
+ * Composes a list of middleware into a single function that calls them in
+ * order, and finally calls `invoke` with the resulting arguments. If the list
+ * is empty, `invoke` is called synchronously.
+ */
+export function composeMiddleware(
+  middleware: readonly ActionMiddleware[],
+  invoke: (args: unknown[]) => unknown,
+) {
+  return function dispatch(
+    ctx: MiddlewareContext,
+    args = ctx.args,
+    index = 0,
+  ): unknown {
+    if (index >= middleware.length) {
+      return invoke(args)
+    }
+
+    return middleware[index](
+      { ...ctx, args },
+      (nextArgs = args) =>
+        new Promise((resolve) => resolve(dispatch(ctx, nextArgs, index + 1))),
+    )
+  }
+}
+
+/**
+ * Calls the given hook of each of the provided hook sets, in order. Errors
+ * are thrown to the caller.
+ */
+export function callHooks<K extends keyof ActionHooks<any, any, any>>(
+  hooks: readonly (ActionHooks<any, any, any> | undefined)[],
+  name: K,
+  ctx: Parameters<NonNullable<ActionHooks<any, any, any>[K]>>[0],
+) {
+  for (const set of hooks) {
+    set?.[name]?.(ctx as any)
+  }
+}
+
+/**
+ * Like {@link callHooks}, but logs errors thrown by the hooks to the console
+ * instead of throwing them, so that the remaining hooks are still called.
+ */
+export function callHooksSafely<K extends keyof ActionHooks<any, any, any>>(
+  hooks: readonly (ActionHooks<any, any, any> | undefined)[],
+  name: K,
+  ctx: Parameters<NonNullable<ActionHooks<any, any, any>[K]>>[0],
+) {
+  for (const set of hooks) {
+    try {
+      set?.[name]?.(ctx as any)
+    } catch (e) {
+      console.error(`Error in ${name} hook of action:`, e)
+    }
+  }
+}
@@ -1,7 +1,19 @@
 import { describe, expect, expectTypeOf, it, vi } from 'vitest'
-import { ref } from 'vue'
+import { effectScope, ref } from 'vue'
 import { delay } from '../../test/delay'
-import { createUseAction, useAction } from './index'
+import { retryDelay } from './retry'
+import {
+  type ActionContext,
+  type ActionDevtoolsApi,
+  CancelledError,
+  TimeoutError,
+  createActionRegistry,
+  createUseAction,
+  setupActionDevtools,
+  splitProgress,
+  trackResponseProgress,
+  useAction,
+} from './index'
 
 describe('useAction', () => {
   it('returns a correctly typed runner function', () => {
@@ -324,6 +336,740 @@ describe('useAction', () => {
   })
 })
 
+describe('useAction context', () => {
+  it('passes the context after the arguments if enabled', async () => {
+    const [run] = useAction(
+      (value: number | undefined, ctx: ActionContext) =>
+        [value, ctx.signal instanceof AbortSignal] as const,
+      { context: true },
+    )
+
+    expectTypeOf(run).parameters.toEqualTypeOf<[value: number | undefined]>()
+
+    expect(await run(1)).toEqual([1, true])
+    expect(await run(undefined)).toEqual([undefined, true])
+  })
+
+  it('does not pass the context by default', async () => {
+    const action = vi.fn((id: string, opts?: { x: number }) => [id, opts])
+    const [run] = useAction(action)
+
+    expectTypeOf(run).parameters.toEqualTypeOf<
+      [id: string, opts?: { x: number }]
+    >()
+
+    expect(await run('a')).toEqual(['a', undefined])
+    expect(await run('b', { x: 1 })).toEqual(['b', { x: 1 }])
+    expect(action).toHaveBeenCalledWith('a')
+  })
+
+  it('keeps default parameters', async () => {
+    const [run] = useAction((page: number = 1) => page)
+
+    expect(await run()).toBe(1)
+    expect(await run(2)).toBe(2)
+  })
+
+  it('does not pass the context to rest parameters', async () => {
+    const [run] = useAction((...ids: string[]) => ids.length)
+
+    expect(await run()).toBe(0)
+    expect(await run('a', 'b')).toBe(2)
+  })
+})
+
+describe('useAction concurrency', () => {
+  it('passes an AbortSignal to the action', async () => {
+    let signal: AbortSignal | undefined
+    const [run] = useAction(
+      async (foo: string, ctx: ActionContext) => {
+        signal = ctx.signal
+        return foo
+      },
+      { context: true },
+    )
+
+    expectTypeOf(run).toMatchTypeOf<(foo: string) => Promise<string | null>>()
+
+    expect(await run('foo')).toBe('foo')
+    expect(signal).toBeInstanceOf(AbortSignal)
+    expect(signal?.aborted).toBe(false)
+  })
+
+  it('runs actions in parallel by default', async () => {
+    let calls = 0
+    const [run, { pending }] = useAction(async (ms: number) => {
+      calls++
+      await delay(ms)
+      return ms
+    })
+
+    const a = run(30)
+    const b = run(10)
+
+    expect(calls).toBe(2)
+    expect(await b).toBe(10)
+    expect(pending.value).toBe(true)
+    expect(await a).toBe(30)
+    expect(pending.value).toBe(false)
+  })
+
+  it('only lets the latest run update the error state', async () => {
+    const [run, { error }] = useAction(async (ms: number) => {
+      await delay(ms)
+      throw new Error(`failed after ${ms}`)
+    })
+
+    const a = run(30)
+    const b = run(10)
+
+    await Promise.all([a, b])
+
+    expect(error.value).toBe('failed after 10')
+  })
+
+  it(`ignores calls while pending in 'exclusive' mode`, async () => {
+    let calls = 0
+    const [run, { pending }] = useAction(
+      async () => {
+        calls++
+        await delay(10)
+        return 'done'
+      },
+      { concurrency: 'exclusive', throw: true },
+    )
+
+    expectTypeOf(run).toMatchTypeOf<() => Promise<string | null>>()
+
+    const a = run()
+    const b = run()
+
+    expect(await b).toBeNull()
+    expect(pending.value).toBe(true)
+    expect(await a).toBe('done')
+    expect(calls).toBe(1)
+  })
+
+  it(`aborts the previous run in 'takeLatest' mode`, async () => {
+    const signals: AbortSignal[] = []
+    const [run, { pending, error }] = useAction(
+      async (ms: number, ctx: ActionContext) => {
+        signals.push(ctx.signal)
+        await delay(ms)
+        throw new Error(`failed after ${ms}`)
+      },
+      { context: true, concurrency: 'takeLatest' },
+    )
+
+    const a = run(10)
+    const b = run(30)
+
+    expect(await a).toBeNull()
+    expect(signals[0].aborted).toBe(true)
+    expect(signals[1].aborted).toBe(false)
+
+    await delay(15)
+    expect(pending.value).toBe(true)
+    expect(error.value).toBeNull()
+
+    expect(await b).toBeNull()
+    expect(pending.value).toBe(false)
+    expect(error.value).toBe('failed after 30')
+  })
+
+  it(`runs actions one after another in 'queue' mode`, async () => {
+    const events: string[] = []
+    const [run, { pending }] = useAction(
+      async (name: string) => {
+        events.push(`start ${name}`)
+        await delay(10)
+        events.push(`end ${name}`)
+        return name
+      },
+      { concurrency: 'queue', throw: true },
+    )
+
+    expectTypeOf(run).toMatchTypeOf<(name: string) => Promise<string>>()
+
+    const results = Promise.all([run('a'), run('b'), run('c')])
+    expect(pending.value).toBe(true)
+
+    expect(await results).toEqual(['a', 'b', 'c'])
+    expect(events).toEqual([
+      'start a',
+      'end a',
+      'start b',
+      'end b',
+      'start c',
+      'end c',
+    ])
+    expect(pending.value).toBe(false)
+  })
+
+  it('cancels pending and queued runs', async () => {
+    let signal: AbortSignal | undefined
+    let calls = 0
+    const [run, { pending, error, cancel }] = useAction(
+      async (ctx: ActionContext) => {
+        calls++
+        signal = ctx.signal
+        await delay(20)
+        throw new Error('foo')
+      },
+      { context: true, concurrency: 'queue' },
+    )
+
+    const a = run()
+    const b = run()
+
+    cancel()
+
+    expect(pending.value).toBe(false)
+    expect(signal?.aborted).toBe(true)
+    expect(await a).toBeNull()
+    expect(await b).toBeNull()
+
+    await delay(30)
+    expect(calls).toBe(1)
+    expect(error.value).toBeNull()
+  })
+
+  it(`rejects cancelled runs with a CancelledError when 'throw' is enabled`, async () => {
+    const [run, { cancel }] = useAction(() => delay(20), { throw: true })
+
+    const p = run()
+    cancel()
+
+    await expect(p).rejects.toThrow(CancelledError)
+  })
+
+  it('cancels pending runs when the effect scope is disposed', async () => {
+    let signal: AbortSignal | undefined
+    const scope = effectScope()
+
+    const p = scope.run(() => {
+      const [run] = useAction(
+        async (ctx: ActionContext) => {
+          signal = ctx.signal
+          await delay(20)
+          return 'done'
+        },
+        { context: true },
+      )
+      return run()
+    })!
+
+    scope.stop()
+
+    expect(signal?.aborted).toBe(true)
+    expect(await p).toBeNull()
+  })
+})
+
+describe('useAction retry', () => {
+  it('retries failed runs', async () => {
+    let calls = 0
+    const [run, { error, attempt }] = useAction(
+      () => {
+        if (++calls < 3) {
+          throw new Error(`failed ${calls}`)
+        }
+        return 'done'
+      },
+      { retry: { retries: 2, delay: 1 } },
+    )
+
+    expect(await run()).toBe('done')
+    expect(calls).toBe(3)
+    expect(attempt.value).toBe(3)
+    expect(error.value).toBeNull()
+  })
+
+  it('gives up after the configured number of retries', async () => {
+    let calls = 0
+    const parseError = vi.fn((err: Error) => `parsed: ${err.message}`)
+    const [run, { error, retrying }] = useAction(
+      () => {
+        throw new Error(`failed ${++calls}`)
+      },
+      { retry: { retries: 2, delay: 1 }, parseError },
+    )
+
+    expect(await run()).toBeNull()
+    expect(calls).toBe(3)
+    expect(retrying.value).toBe(false)
+    expect(parseError).toHaveBeenCalledTimes(1)
+    expect(error.value).toBe('parsed: failed 3')
+  })
+
+  it(`only retries errors accepted by 'shouldRetry'`, async () => {
+    let calls = 0
+    const shouldRetry = vi.fn(
+      (err: Error, _attempt: number) => err.message !== 'fatal',
+    )
+    const [run, { error }] = useAction(
+      () => {
+        throw new Error(++calls === 1 ? 'transient' : 'fatal')
+      },
+      { retry: { retries: 5, delay: 1, shouldRetry } },
+    )
+
+    await run()
+
+    expect(calls).toBe(2)
+    expect(shouldRetry.mock.calls.map(([err, n]) => [err.message, n])).toEqual([
+      ['transient', 1],
+      ['fatal', 2],
+    ])
+    expect(error.value).toBe('fatal')
+  })
+
+  it('reports the attempt and whether it is retrying', async () => {
+    let calls = 0
+    const [run, { attempt, retrying, pending }] = useAction(
+      async () => {
+        await delay(20)
+        if (++calls < 2) {
+          throw new Error('foo')
+        }
+      },
+      { retry: { retries: 1, delay: 40, backoff: 'fixed' } },
+    )
+
+    expect(attempt.value).toBe(0)
+
+    const p = run()
+    expect(attempt.value).toBe(1)
+    expect(retrying.value).toBe(false)
+
+    await delay(30)
+    expect(attempt.value).toBe(1)
+    expect(retrying.value).toBe(true)
+    expect(pending.value).toBe(true)
+
+    await delay(40)
+    expect(attempt.value).toBe(2)
+    expect(retrying.value).toBe(true)
+
+    await p
+    expect(retrying.value).toBe(false)
+    expect(pending.value).toBe(false)
+  })
+
+  it('stops retrying when the effect scope is disposed', async () => {
+    let calls = 0
+    const scope = effectScope()
+
+    const p = scope.run(() => {
+      const [run] = useAction(
+        () => {
+          calls++
+          throw new Error('foo')
+        },
+        { retry: { retries: 3, delay: 10 } },
+      )
+      return run()
+    })!
+
+    await delay(5)
+    scope.stop()
+
+    expect(await p).toBeNull()
+    await delay(50)
+    expect(calls).toBe(1)
+  })
+})
+
+describe('useAction hooks', () => {
+  it('calls the lifecycle hooks of a successful run', async () => {
+    const events: unknown[] = []
+    const [run] = useAction(async (foo: string) => `${foo}!`, {
+      onBefore: ({ args }) => events.push(['before', args]),
+      onSuccess: ({ args, result, duration }) => {
+        expectTypeOf(args).toEqualTypeOf<[foo: string]>()
+        expectTypeOf(result).toEqualTypeOf<string>()
+        expect(duration).toBeGreaterThanOrEqual(0)
+        events.push(['success', args, result])
+      },
+      onError: () => events.push(['error']),
+      onSettled: ({ result, error }) => events.push(['settled', result, error]),
+    })
+
+    await run('foo')
+
+    expect(events).toEqual([
+      ['before', ['foo']],
+      ['success', ['foo'], 'foo!'],
+      ['settled', 'foo!', null],
+    ])
+  })
+
+  it('calls the lifecycle hooks of a failed run with the parsed error', async () => {
+    const events: unknown[] = []
+    const [run] = useAction(
+      () => {
+        throw new Error('foo')
+      },
+      {
+        parseError: (err) => `parsed: ${err.message}`,
+        onSuccess: () => events.push(['success']),
+        onError: ({ error, cause }) =>
+          events.push(['error', error, cause.message]),
+        onSettled: ({ result, error }) =>
+          events.push(['settled', result, error]),
+      },
+    )
+
+    await run()
+
+    expect(events).toEqual([
+      ['error', 'parsed: foo', 'foo'],
+      ['settled', null, 'parsed: foo'],
+    ])
+  })
+
+  it('calls global hooks before local hooks', async () => {
+    const events: string[] = []
+    const useAction = createUseAction({
+      onBefore: () => events.push('global before'),
+      onSuccess: () => events.push('global success'),
+      onSettled: () => events.push('global settled'),
+    })
+
+    const [run] = useAction(() => 'foo', {
+      onBefore: () => events.push('local before'),
+      onSuccess: () => events.push('local success'),
+      onSettled: () => events.push('local settled'),
+    })
+
+    await run()
+
+    expect(events).toEqual([
+      'global before',
+      'local before',
+      'global success',
+      'local success',
+      'global settled',
+      'local settled',
+    ])
+  })
+
+  it('does not call result hooks for cancelled runs', async () => {
+    const onSettled = vi.fn()
+    const [run, { cancel }] = useAction(() => delay(10), { onSettled })
+
+    const p = run()
+    cancel()
+    await p
+    await delay(20)
+
+    expect(onSettled).not.toHaveBeenCalled()
+  })
+
+  it('fails the run if onBefore throws', async () => {
+    const registry = createActionRegistry()
+    const action = vi.fn(() => 'foo')
+    const onError = vi.fn()
+    let block = true
+    const useAction = createUseAction({ registry })
+    const [run, { pending, error }] = useAction(action, {
+      name: 'save',
+      concurrency: 'exclusive',
+      onBefore: () => {
+        if (block) {
+          throw new Error('blocked')
+        }
+      },
+      onError,
+    })
+
+    expect(await run()).toBeNull()
+    expect(action).not.toHaveBeenCalled()
+    expect(error.value).toBe('blocked')
+    expect(onError).toHaveBeenCalledTimes(1)
+    expect(pending.value).toBe(false)
+    expect(registry.isBusy.value).toBe(false)
+
+    block = false
+    expect(await run()).toBe('foo')
+  })
+
+  it('logs errors of result hooks without failing the run', async () => {
+    const log = vi.spyOn(console, 'error').mockImplementation(() => {})
+    const onSettled = vi.fn()
+    const [run, { error }] = useAction(() => 'foo', {
+      onSuccess: () => {
+        throw new Error('hook failed')
+      },
+      onSettled,
+    })
+    const [runFailing] = useAction(
+      () => {
+        throw new Error('foo')
+      },
+      {
+        onError: () => {
+          throw new Error('hook failed')
+        },
+      },
+    )
+
+    expect(await run()).toBe('foo')
+    expect(error.value).toBeNull()
+    expect(onSettled).toHaveBeenCalledTimes(1)
+    expect(await runFailing()).toBeNull()
+    expect(log).toHaveBeenCalledTimes(2)
+    log.mockRestore()
+  })
+})
+
+describe('useAction middleware', () => {
+  it('runs global middleware before local middleware', async () => {
+    const events: string[] = []
+    const useAction = createUseAction({
+      middleware: [
+        async (_, next) => {
+          events.push('global')
+          return next()
+        },
+      ],
+    })
+
+    const [run] = useAction(
+      () => {
+        events.push('action')
+      },
+      {
+        middleware: [
+          (_, next) => {
+            events.push('local')
+            return next()
+          },
+        ],
+      },
+    )
+
+    await run()
+
+    expect(events).toEqual(['global', 'local', 'action'])
+  })
+
+  it('can transform arguments and results', async () => {
+    const [run] = useAction((a: number, b: number) => a + b, {
+      middleware: [
+        async (ctx, next) => {
+          const [a, b] = ctx.args as [number, number]
+          const result = (await next([a * 10, b * 10])) as number
+          return result + 1
+        },
+      ],
+    })
+
+    expect(await run(1, 2)).toBe(31)
+  })
+
+  it('can transform errors', async () => {
+    const [run, { error }] = useAction(
+      () => {
+        throw new Error('foo')
+      },
+      {
+        middleware: [
+          async (_, next) => {
+            try {
+              return await next()
+            } catch (e) {
+              throw new Error(`wrapped: ${(e as Error).message}`)
+            }
+          },
+        ],
+      },
+    )
+
+    await run()
+
+    expect(error.value).toBe('wrapped: foo')
+  })
+
+  it('can recover from errors by calling next again', async () => {
+    let token = 'expired'
+    const [run] = useAction(
+      () => {
+        if (token === 'expired') {
+          throw new Error('unauthorized')
+        }
+        return token
+      },
+      {
+        middleware: [
+          async (_, next) => {
+            try {
+              return await next()
+            } catch (e) {
+              token = 'fresh'
+              return next()
+            }
+          },
+        ],
+      },
+    )
+
+    expect(await run()).toBe('fresh')
+  })
+
+  it('passes the attempt number to middleware', async () => {
+    const attempts: number[] = []
+    const [run] = useAction(
+      () => {
+        throw new Error('foo')
+      },
+      {
+        retry: { retries: 2, delay: 1 },
+        middleware: [
+          (ctx, next) => {
+            attempts.push(ctx.attempt)
+            return next()
+          },
+        ],
+      },
+    )
+
+    await run()
+
+    expect(attempts).toEqual([1, 2, 3])
+  })
+})
+
+describe('useAction optimistic updates', () => {
+  it('applies the update before running the action', async () => {
+    const liked = ref(false)
+    const [run] = useAction(
+      async () => {
+        expect(liked.value).toBe(true)
+      },
+      {
+        optimistic: () => {
+          liked.value = true
+          return () => {
+            liked.value = false
+          }
+        },
+      },
+    )
+
+    await run()
+
+    expect(liked.value).toBe(true)
+  })
+
+  it('rolls back the update when the action fails', async () => {
+    const liked = ref(false)
+    const [run] = useAction(
+      async () => {
+        throw new Error('foo')
+      },
+      {
+        optimistic: () => {
+          liked.value = true
+          return () => {
+            liked.value = false
+          }
+        },
+      },
+    )
+
+    const p = run()
+    expect(liked.value).toBe(true)
+
+    await p
+    expect(liked.value).toBe(false)
+  })
+
+  it('rolls back the update when the run is cancelled', async () => {
+    const items = ref(['a'])
+    const [run, { cancel }] = useAction((_item: string) => delay(10), {
+      optimistic: {
+        target: items,
+        update: (value, item) => [...value, item],
+      },
+    })
+
+    const p = run('b')
+    expect(items.value).toEqual(['a', 'b'])
+
+    cancel()
+    expect(items.value).toEqual(['a'])
+    await p
+  })
+
+  it('rolls back overlapping updates in the correct order', async () => {
+    const items = ref(['a'])
+    const [run] = useAction(
+      async (item: string, ms: number) => {
+        await delay(ms)
+        if (item === 'b') {
+          throw new Error('foo')
+        }
+      },
+      {
+        optimistic: {
+          target: items,
+          update: (value, item) => [...value, item],
+        },
+      },
+    )
+
+    const b = run('b', 20)
+    const c = run('c', 40)
+    const d = run('d', 10)
+    expect(items.value).toEqual(['a', 'b', 'c', 'd'])
+
+    await d
+    expect(items.value).toEqual(['a', 'b', 'c', 'd'])
+
+    await b
+    expect(items.value).toEqual(['a', 'c', 'd'])
+
+    await c
+    expect(items.value).toEqual(['a', 'c', 'd'])
+  })
+
+  it('does not apply the update for ignored runs', async () => {
+    const optimistic = vi.fn()
+    const [run] = useAction(() => delay(10), {
+      concurrency: 'exclusive',
+      optimistic,
+    })
+
+    await Promise.all([run(), run()])
+
+    expect(optimistic).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('retryDelay', () => {
+  it('grows exponentially by default', () => {
+    const opts = { retries: 5, delay: 100, maxDelay: 500 }
+    expect([1, 2, 3, 4].map((n) => retryDelay(opts, n))).toEqual([
+      100, 200, 400, 500,
+    ])
+  })
+
+  it('supports a fixed delay', () => {
+    const opts = { retries: 5, delay: 100, backoff: 'fixed' as const }
+    expect([1, 2, 3].map((n) => retryDelay(opts, n))).toEqual([100, 100, 100])
+  })
+
+  it('randomizes the delay when jitter is enabled', () => {
+    const opts = { retries: 5, delay: 100, jitter: true }
+    for (let i = 0; i < 20; i++) {
+      const ms = retryDelay(opts, 2)
+      expect(ms).toBeGreaterThanOrEqual(0)
+      expect(ms).toBeLessThanOrEqual(200)
+    }
+  })
+})
+
 describe('createUseAction', () => {
   it(`creates a custom 'useAction' hook`, async () => {
     const useAction = createUseAction()
@@ -347,6 +1093,31 @@ describe('createUseAction', () => {
     expect(error.value).toBe('foo bar')
   })
 
+  it(`passes the provided 'retry' option to useAction`, async () => {
+    const useAction = createUseAction({ retry: { retries: 2, delay: 1 } })
+
+    let calls = 0
+    const [run] = useAction(() => {
+      calls++
+      throw new Error('foo')
+    })
+
+    await run()
+    expect(calls).toBe(3)
+
+    calls = 0
+    const [runOnce] = useAction(
+      () => {
+        calls++
+        throw new Error('foo')
+      },
+      { retry: false },
+    )
+
+    await runOnce()
+    expect(calls).toBe(1)
+  })
+
   it(`supports overriding the 'parseError' option`, async () => {
     const useAction = createUseAction({
       parseError: (err) => `${err.message} bar`,
@@ -364,3 +1135,410 @@ describe('createUseAction', () => {
     expect(error.value).toBe('foo baz')
   })
 })
+
+describe('useAction registry', () => {
+  it('tracks runs of named actions', async () => {
+    const registry = createActionRegistry()
+    const useAction = createUseAction({ registry })
+
+    const [save] = useAction(
+      async (id: number) => {
+        await delay(10)
+        return `saved ${id}`
+      },
+      { name: 'save' },
+    )
+    const [load] = useAction(async () => delay(10))
+
+    const saved = save(1)
+    load()
+
+    expect(registry.isBusy.value).toBe(true)
+    expect(registry.isRunning('save')).toBe(true)
+    expect(registry.runs.value).toHaveLength(1)
+    expect(registry.runsOf('save')[0]).toMatchObject({
+      name: 'save',
+      args: [1],
+      status: 'pending',
+    })
+
+    await saved
+    expect(registry.isBusy.value).toBe(false)
+    expect(registry.isRunning('save')).toBe(false)
+  })
+
+  it('registers all actions of a factory', async () => {
+    const registry = createActionRegistry()
+    const useAction = createUseAction({ registry, register: true })
+
+    async function fetchUsers() {
+      await delay(10)
+    }
+
+    const [run] = useAction(fetchUsers)
+    const [runAnonymous] = useAction(async () => delay(10))
+    run()
+    runAnonymous()
+
+    expect(registry.runs.value.map((run) => run.name)).toEqual([
+      'fetchUsers',
+      'anonymous',
+    ])
+  })
+
+  it('logs recent errors', async () => {
+    const registry = createActionRegistry({ maxErrors: 2 })
+    const useAction = createUseAction({
+      registry,
+      parseError: (error) => `parsed: ${error.message}`,
+    })
+
+    for (const message of ['a', 'b', 'c']) {
+      const [run] = useAction(
+        () => {
+          throw new Error(message)
+        },
+        { name: message },
+      )
+      await run()
+    }
+
+    expect(registry.errors.value.map((run) => run.error)).toEqual([
+      'parsed: c',
+      'parsed: b',
+    ])
+
+    registry.clearErrors()
+    expect(registry.errors.value).toEqual([])
+  })
+
+  it('reports cancelled and superseded runs', async () => {
+    const registry = createActionRegistry()
+    const listener = vi.fn()
+    registry.subscribe(listener)
+
+    const useAction = createUseAction({ registry })
+    const [run, { cancel }] = useAction(async () => delay(10), {
+      name: 'search',
+      concurrency: 'takeLatest',
+    })
+
+    run()
+    run()
+    cancel()
+
+    expect(registry.isBusy.value).toBe(false)
+    expect(
+      listener.mock.calls.map(([event]) => [event.type, event.run.status]),
+    ).toEqual([
+      ['start', 'cancelled'],
+      ['settle', 'cancelled'],
+      ['start', 'cancelled'],
+      ['settle', 'cancelled'],
+    ])
+  })
+
+  it('reports runs to the devtools', async () => {
+    const registry = createActionRegistry()
+    const useAction = createUseAction({ registry })
+
+    const handlers: Record<string, (payload: any) => void> = {}
+    const api = {
+      now: () => 0,
+      addInspector: vi.fn(),
+      addTimelineLayer: vi.fn(),
+      addTimelineEvent: vi.fn(),
+      sendInspectorTree: vi.fn(),
+      sendInspectorState: vi.fn(),
+      on: {
+        getInspectorTree: (handler) => (handlers.tree = handler),
+        getInspectorState: (handler) => (handlers.state = handler),
+      },
+    } satisfies ActionDevtoolsApi
+
+    const stop = setupActionDevtools({} as any, registry, {
+      hook: { emit: (_, __, setup) => setup(api) },
+    })
+
+    const [run] = useAction(async (id: number) => `saved ${id}`, {
+      name: 'save',
+    })
+    await run(1)
+
+    expect(api.addTimelineEvent).toHaveBeenCalledTimes(2)
+    expect(api.addTimelineEvent.mock.calls[1][0].event).toMatchObject({
+      title: 'save',
+      subtitle: 'success',
+      data: { args: [1], result: 'saved 1', error: null },
+    })
+
+    const tree = { inspectorId: 'modernice-vue-ui-actions', filter: '' }
+    handlers.tree(tree)
+    expect(tree).toMatchObject({ rootNodes: [{ id: '1', label: 'save' }] })
+
+    const state = { inspectorId: 'modernice-vue-ui-actions', nodeId: '1' }
+    handlers.state(state)
+    expect(state).toMatchObject({
+      state: {
+        run: expect.arrayContaining([{ key: 'result', value: 'saved 1' }]),
+      },
+    })
+
+    stop()
+    await run(2)
+    expect(api.addTimelineEvent).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('useAction progress', () => {
+  it('exposes the reported progress and status', async () => {
+    const reported: unknown[] = []
+    const [run, { progress, status }] = useAction(
+      async (ctx: ActionContext) => {
+        ctx.status('uploading')
+        ctx.progress(0.25)
+        reported.push(progress.value, status.value)
+        ctx.progress({ loaded: 3, total: 4 })
+        reported.push(progress.value)
+        ctx.progress({ loaded: 0, total: 0 })
+        reported.push(progress.value)
+        ctx.progress(2)
+        ctx.status('done')
+      },
+      { context: true },
+    )
+
+    expect(progress.value).toBeNull()
+    await run()
+
+    expect(reported).toEqual([0.25, 'uploading', 0.75, null])
+    expect(progress.value).toBe(1)
+    expect(status.value).toBe('done')
+  })
+
+  it('resets the progress when a run starts', async () => {
+    const [run, { progress, status }] = useAction(
+      async (value: number, ctx: ActionContext) => {
+        ctx.progress(value)
+        ctx.status(String(value))
+        await delay(10)
+      },
+      { context: true },
+    )
+
+    await run(0.5)
+    const next = run(0.25)
+    expect(progress.value).toBe(0.25)
+    expect(status.value).toBe('0.25')
+    await next
+  })
+
+  it('ignores reports of superseded runs', async () => {
+    let report: ActionContext['progress'] = () => {}
+    const [run, { progress }] = useAction(
+      async (value: number, ctx: ActionContext) => {
+        if (value === 1) {
+          report = ctx.progress
+        }
+        ctx.progress(value / 10)
+        await delay(10)
+      },
+      { context: true, concurrency: 'takeLatest' },
+    )
+
+    run(1)
+    const latest = run(2)
+    report(0.9)
+
+    expect(progress.value).toBe(0.2)
+    await latest
+  })
+
+  it('aggregates the progress of sub-steps', () => {
+    const report = vi.fn()
+    const [upload, process] = splitProgress(report, [3, 1])
+
+    upload(0.5)
+    upload({ loaded: 10, total: 10 })
+    process(0.5)
+
+    expect(report.mock.calls.map(([value]) => value)).toEqual([
+      0.375, 0.75, 0.875,
+    ])
+
+    const steps = splitProgress(report, 4)
+    steps[1](1)
+    expect(report).toHaveBeenLastCalledWith(0.25)
+  })
+
+  it('tracks the progress of a response body', async () => {
+    const chunks = [new Uint8Array(3), new Uint8Array(1)]
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        chunks.forEach((chunk) => controller.enqueue(chunk))
+        controller.close()
+      },
+    })
+    const response = new Response(body, {
+      status: 201,
+      headers: { 'Content-Length': '4' },
+    })
+
+    const [run, { progress }] = useAction(
+      async (ctx: ActionContext) => {
+        const reported: number[] = []
+        const tracked = trackResponseProgress(response, (value) => {
+          ctx.progress(value)
+          reported.push(progress.value!)
+        })
+
+        expect(tracked.status).toBe(201)
+        const buffer = await tracked.arrayBuffer()
+        return { size: buffer.byteLength, reported }
+      },
+      { context: true },
+    )
+
+    const result = await run()
+
+    expect(result?.size).toBe(4)
+    expect(result?.reported).toEqual([0, 0.75, 1, 1])
+    expect(progress.value).toBe(1)
+  })
+})
+
+describe('useAction scheduling', () => {
+  it('debounces runs', async () => {
+    const action = vi.fn(async (value: number) => value * 2)
+    const [run, { pending }] = useAction(action, { debounce: 20 })
+
+    const first = run(1)
+    await delay(10)
+    const second = run(2)
+
+    expect(pending.value).toBe(true)
+    await delay(10)
+    expect(action).not.toHaveBeenCalled()
+
+    expect(await Promise.all([first, second])).toEqual([4, 4])
+    expect(action).toHaveBeenCalledTimes(1)
+    expect(action).toHaveBeenCalledWith(2)
+    expect(pending.value).toBe(false)
+  })
+
+  it('flushes a debounced run', async () => {
+    const action = vi.fn(async (value: number) => value)
+    const [run, { flush }] = useAction(action, { debounce: 1000 })
+
+    const result = run(1)
+    flush()
+
+    expect(action).toHaveBeenCalledTimes(1)
+    expect(await result).toBe(1)
+  })
+
+  it('cancels a debounced run', async () => {
+    const action = vi.fn(async () => 'done')
+    const [run, { pending, cancel }] = useAction(action, { debounce: 10 })
+    const [runThrowing, { cancel: cancelThrowing }] = useAction(action, {
+      debounce: 10,
+      throw: true,
+    })
+
+    const result = run()
+    const rejected = expect(runThrowing()).rejects.toThrow(CancelledError)
+    cancel()
+    cancelThrowing()
+
+    expect(pending.value).toBe(false)
+    expect(await result).toBeNull()
+    await rejected
+    await delay(20)
+    expect(action).not.toHaveBeenCalled()
+  })
+
+  it('throttles runs', async () => {
+    const action = vi.fn(async (value: number) => value)
+    const [run, { pending }] = useAction(action, {
+      throttle: 20,
+      throw: true,
+    })
+
+    expectTypeOf(run).returns.resolves.toEqualTypeOf<number>()
+
+    const first = run(1)
+    const second = run(2)
+    const third = run(3)
+
+    expect(action).toHaveBeenCalledTimes(1)
+    expect(await first).toBe(1)
+    expect(pending.value).toBe(true)
+
+    expect(await Promise.all([second, third])).toEqual([3, 3])
+    expect(action).toHaveBeenCalledTimes(2)
+    expect(action).toHaveBeenLastCalledWith(3)
+  })
+
+  it('supports leading and trailing throttle options', async () => {
+    const leading = vi.fn(async (value: number) => value)
+    const [runLeading] = useAction(leading, {
+      throttle: { wait: 20, trailing: false },
+      throw: true,
+    })
+
+    expectTypeOf(runLeading).returns.resolves.toEqualTypeOf<number | null>()
+
+    expect(await Promise.all([runLeading(1), runLeading(2)])).toEqual([1, null])
+    expect(leading).toHaveBeenCalledTimes(1)
+
+    const trailing = vi.fn(async (value: number) => value)
+    const [runTrailing] = useAction(trailing, {
+      throttle: { wait: 20, leading: false },
+    })
+
+    const result = runTrailing(1)
+    expect(trailing).not.toHaveBeenCalled()
+    expect(await result).toBe(1)
+  })
+
+  it('does not start debounced runs once disabled', async () => {
+    const disabled = ref(false)
+    const action = vi.fn(async () => 'done')
+    const [run, { pending }] = useAction(action, { debounce: 10, disabled })
+
+    const result = run()
+    disabled.value = true
+
+    expect(await result).toBeNull()
+    expect(action).not.toHaveBeenCalled()
+    expect(pending.value).toBe(false)
+  })
+
+  it('fails runs that exceed the timeout', async () => {
+    let signal: AbortSignal | undefined
+    const parseError = vi.fn((error: Error) => error)
+    const [run, { error }] = useAction(
+      (ctx: ActionContext) => {
+        signal = ctx.signal
+        return new Promise(() => {})
+      },
+      { context: true, timeout: 10, parseError },
+    )
+
+    expect(await run()).toBeNull()
+    expect(error.value).toBeInstanceOf(TimeoutError)
+    expect((error.value as TimeoutError).timeout).toBe(10)
+    expect(parseError).toHaveBeenCalledWith(expect.any(TimeoutError))
+    expect(signal?.aborted).toBe(true)
+  })
+
+  it('does not time out runs that settle in time', async () => {
+    const [run, { error }] = useAction(() => delay(5).then(() => 'done'), {
+      timeout: 50,
+      throw: true,
+    })
+
+    expect(await run()).toBe('done')
+    expect(error.value).toBeNull()
+  })
+})
@@ -1,6 +1,111 @@
 import { type Ref, computed, ref } from 'vue'
-import { type MaybeRefOrGetter, toRef } from '@vueuse/core'
+import { type MaybeRefOrGetter, toRef, tryOnScopeDispose } from '@vueuse/core'
 import { defu } from 'defu'
+import { useVueUIConfig } from '../../plugin'
+import { type RetryOption, resolveRetry, retryDelay, sleep } from './retry'
+import {
+  type ActionHooks,
+  type ActionMiddleware,
+  callHooks,
+  callHooksSafely,
+  composeMiddleware,
+} from './hooks'
+import {
+  type OptimisticEntry,
+  type OptimisticUpdate,
+  createOptimisticStack,
+} from './optimistic'
+import { type ActionRegistry, actionRegistry } from './registry'
+import { type ProgressReporter, toProgressFraction } from './progress'
+import { type ThrottleOption, createScheduler, withTimeout } from './schedule'
+
+export type { RetryOption, RetryOptions } from './retry'
+export type { OptimisticRefUpdate, OptimisticUpdate } from './optimistic'
+export {
+  type ThrottleOption,
+  type ThrottleOptions,
+  TimeoutError,
+} from './schedule'
+export {
+  type ActionRegistry,
+  type ActionRegistryEvent,
+  type ActionRegistryOptions,
+  type ActionRun,
+  type ActionRunStatus,
+  type ActionRunTracker,
+  actionRegistry,
+  createActionRegistry,
+  useActionRegistry,
+} from './registry'
+export {
+  type ProgressReporter,
+  type ProgressValue,
+  splitProgress,
+  toProgressFraction,
+  trackResponseProgress,
+  trackStreamProgress,
+} from './progress'
+export {
+  type ActionDevtoolsApi,
+  type ActionDevtoolsOptions,
+  type DevtoolsHook,
+  setupActionDevtools,
+} from './devtools'
+export type {
+  ActionErrorContext,
+  ActionHookContext,
+  ActionHooks,
+  ActionMiddleware,
+  ActionSettledContext,
+  ActionSuccessContext,
+  MiddlewareContext,
+} from './hooks'
+
+/**
+ * Strategy that decides what happens when `run` is called while a previous
+ * run of the same action is still pending.
+ *
+ * - `parallel`: every run executes immediately.
+ * - `exclusive`: calls are ignored while a run is pending.
+ * - `takeLatest`: the pending run is aborted and replaced by the new one.
+ * - `queue`: runs are executed one after another, in call order.
+ */
+export type Concurrency = 'parallel' | 'exclusive' | 'takeLatest' | 'queue'
+
+/**
+ * Context that is passed to actions that enable the `context` option, as the
+ * parameter after the arguments of `run`.
+ */
+export interface ActionContext {
+  /**
+   * Aborted when the run is cancelled or replaced by a newer run.
+   */
+  signal: AbortSignal
+
+  /**
+   * Reports the progress of the run, either as a fraction between `0` and
+   * `1`, or as `{ loaded, total }`. Updates the `progress` state of the
+   * action. Reports of runs that are no longer the latest run are ignored.
+   */
+  progress: ProgressReporter
+
+  /**
+   * Reports a status message of the run, e.g. the current step. Updates the
+   * `status` state of the action.
+   */
+  status: (message: string | null) => void
+}
+
+/**
+ * Thrown by `run` when the `throw` option is enabled and the run is cancelled
+ * via `cancel()` or because the owning component unmounted.
+ */
+export class CancelledError extends Error {
+  constructor(message = 'Action was cancelled') {
+    super(message)
+    this.name = 'CancelledError'
+  }
+}
 
 /**
  * Defines configuration options for the `useAction` composable.
@@ -9,6 +114,14 @@ export interface UseActionOptions<
   TThrow extends boolean,
   TDisabled extends boolean,
   TErrorGlobal extends Error | string = string,
+  TConcurrency extends Concurrency = Concurrency,
+  TAction extends (...args: any[]) => any = (...args: any[]) => any,
+  TThrottle extends ThrottleOption | undefined = ThrottleOption | undefined,
+  TContext extends boolean = boolean,
+> extends ActionHooks<
+  ActionArgs<TAction, TContext>,
+  _Awaited<ReturnType<TAction>>,
+  TErrorGlobal
 > {
   /**
    * Whether to throw errors. If `true`, the `run` function will throw any
@@ -39,84 +152,558 @@ export interface UseActionOptions<
    * @returns The parsed error.
    */
   parseError?: (error: Error) => TErrorGlobal
+
+  /**
+   * What to do when `run` is called while a previous run is still pending.
+   * Runs that are dropped by the `exclusive` and `takeLatest` strategies
+   * resolve to `null`, even if the `throw` option is enabled.
+   *
+   * Only the most recently started run updates the `error` state.
+   *
+   * @default 'parallel'
+   */
+  concurrency?: TConcurrency
+
+  /**
+   * Retries failed runs. Either the maximum number of retries, or a
+   * {@link RetryOptions} object to configure backoff and which errors should
+   * be retried. `parseError` is only applied to the error of the final
+   * attempt. Waiting retries are aborted when the run is cancelled.
+   *
+   * @default false
+   */
+  retry?: RetryOption
+
+  /**
+   * Middleware that wraps each attempt to execute the action. Runs after the
+   * middleware configured through {@link createUseAction}.
+   */
+  middleware?: ActionMiddleware[]
+
+  /**
+   * Optimistic update that is applied right before the action is executed,
+   * and rolled back if the action fails or the run is cancelled. Either a
+   * function that receives the arguments of `run` and returns a rollback
+   * callback, or an {@link OptimisticRefUpdate} that replaces the value of a
+   * ref and restores its snapshot on failure.
+   */
+  optimistic?: OptimisticUpdate<ActionArgs<TAction, TContext>>
+
+  /**
+   * Passes an {@link ActionContext} to the action, as the parameter after the
+   * arguments of `run`. If `run` is called with fewer arguments than the
+   * action declares, the omitted optional parameters are `undefined` and the
+   * context is passed as the last declared parameter. Parameters before the
+   * context must not have default values, because those are not counted by
+   * `action.length`.
+   *
+   * Without this option, the action only receives the arguments of `run`,
+   * so that optional and default parameters keep working.
+   *
+   * @default false
+   */
+  context?: TContext
+
+  /**
+   * Registers the runs of the action under this name in the action registry,
+   * so that they are reported by `useActionRegistry`.
+   */
+  name?: string
+
+  /**
+   * Delays runs until `run` has not been called for the given number of
+   * milliseconds, e.g. for autosaving. The run executes with the arguments
+   * of the last call, and all debounced calls resolve with its result.
+   * `pending` is `true` while a run is scheduled. Ignored if `throttle` is
+   * set.
+   */
+  debounce?: number
+
+  /**
+   * Executes at most one run per wait time. Either the wait time in
+   * milliseconds, or a {@link ThrottleOptions} object to configure whether
+   * the first and the last call of a burst execute. Calls within the wait
+   * time are collapsed into a single trailing run, and resolve with its
+   * result. Without a trailing run, calls within the wait time are dropped
+   * and resolve to `null`, even if the `throw` option is enabled.
+   */
+  throttle?: TThrottle
+
+  /**
+   * Maximum duration of a run in milliseconds, including retries. When
+   * exceeded, the run is aborted through its {@link ActionContext.signal}
+   * and fails with a {@link TimeoutError}, which is passed to `parseError`.
+   */
+  timeout?: number
+}
+
+/**
+ * Base options for all actions created by a `useAction` function returned
+ * from {@link createUseAction}. Options passed to `useAction` take precedence.
+ */
+export interface UseActionBaseOptions<
+  TErrorGlobal extends Error | string = string,
+> extends ActionHooks {
+  /**
+   * Default `parseError` option for all actions.
+   */
+  parseError?: (error: Error) => TErrorGlobal
+
+  /**
+   * Default `retry` option for all actions.
+   */
+  retry?: RetryOption
+
+  /**
+   * Default `timeout` option for all actions.
+   */
+  timeout?: number
+
+  /**
+   * Middleware for all actions. Runs before the middleware passed to
+   * `useAction`.
+   */
+  middleware?: ActionMiddleware[]
+
+  /**
+   * Registers all actions in the action registry, including actions without
+   * a `name`. Those are registered under the name of the action function.
+   *
+   * @default false
+   */
+  register?: boolean
+
+  /**
+   * Registry that named actions are registered in.
+   *
+   * @default actionRegistry
+   */
+  registry?: ActionRegistry
 }
 
 /**
  * `createUseAction` is a higher-order function that provides a mechanism to
  * handle asynchronous actions within Vue components. It accepts an optional
- * base configuration for error parsing and returns a `useAction` function. This
- * `useAction` function then takes an action and an options object to create a
- * composable that manages the action's execution state, error handling, and
- * optional disabling of the action.
+ * base configuration for error parsing, retries, lifecycle hooks and
+ * middleware and returns a `useAction` function. This `useAction` function then takes an action and an options
+ * object to create a composable that manages the action's execution state,
+ * error handling, and optional disabling of the action.
+ *
+ * When called in a component, the `action` config of `createVueUI` applies as
+ * well, with lower precedence than the base configuration.
  */
-export function createUseAction<
-  TErrorGlobal extends Error | string = string,
->(baseOptions?: { parseError?: (error: Error) => TErrorGlobal }) {
+export function createUseAction<TErrorGlobal extends Error | string = string>(
+  baseOptions?: UseActionBaseOptions<TErrorGlobal>,
+) {
   return function useAction<
     TAction extends (...args: any[]) => any,
     TThrow extends boolean,
     TDisabled extends boolean,
     TError extends Error | string = TErrorGlobal,
-  >(action: TAction, options?: UseActionOptions<TThrow, TDisabled, TError>) {
-    const opts = defu(options, baseOptions)
+    TConcurrency extends Concurrency = 'parallel',
+    TThrottle extends ThrottleOption | undefined = undefined,
+    TContext extends boolean = false,
+  >(
+    action: TAction,
+    options?: UseActionOptions<
+      TThrow,
+      TDisabled,
+      TError,
+      TConcurrency,
+      TAction,
+      TThrottle,
+      TContext
+    >,
+  ) {
+    const config = useVueUIConfig().action
+    const opts = defu(options, baseOptions, config)
+    const hooks = [config, baseOptions, options]
+    const registry = baseOptions?.registry ?? config?.registry ?? actionRegistry
+    const name =
+      options?.name ??
+      ((baseOptions?.register ?? config?.register)
+        ? action.name || 'anonymous'
+        : undefined)
+    const middleware = [
+      ...(config?.middleware ?? []),
+      ...(baseOptions?.middleware ?? []),
+      ...(options?.middleware ?? []),
+    ]
 
     const disabled = toRef(opts.disabled)
+    const concurrency: Concurrency = opts.concurrency ?? 'parallel'
+    const retry = resolveRetry(opts.retry ?? undefined)
+    const optimistic = options?.optimistic
+      ? createOptimisticStack(
+          options.optimistic as OptimisticUpdate<readonly unknown[]>,
+        )
+      : undefined
 
     const pending = ref(false)
     const error: Ref<TError | null> = ref(null)
+    const attempt = ref(0)
+    const retrying = ref(false)
+    const progress = ref<number | null>(null)
+    const status = ref<string | null>(null)
+
+    const running = new Set<RunHandle>()
+    const queued: QueueEntry[] = []
+    let latestRun = 0
+
+    const scheduler = createScheduler(
+      { debounce: opts.debounce, throttle: opts.throttle },
+      start,
+      () => dropped('cancelled'),
+      updatePending,
+    )
+
+    function updatePending() {
+      pending.value =
+        running.size > 0 || queued.length > 0 || !!scheduler?.scheduled
+    }
 
     async function run(
-      ...args: Parameters<TAction>
-    ): Promise<Result<TAction, TDisabled, TThrow>> {
+      ...args: ActionArgs<TAction, TContext>
+    ): Promise<Result<TAction, TDisabled, TThrow, TConcurrency, TThrottle>> {
+      if (disabled.value) {
+        return null as any
+      }
+
+      if (scheduler) {
+        return scheduler.schedule(args) as Promise<any>
+      }
+
+      return start(args)
+    }
+
+    async function start(args: unknown[]): Promise<any> {
+      // Debounced and throttled runs start after a delay, during which the
+      // action may have been disabled.
       if (disabled.value) {
+        return null
+      }
+
+      if (concurrency === 'exclusive' && (running.size || queued.length)) {
         return null as any
       }
 
+      if (concurrency === 'takeLatest') {
+        running.forEach((handle) => handle.drop('superseded'))
+      }
+
+      if (concurrency === 'queue' && (running.size || queued.length)) {
+        return enqueue(args)
+      }
+
+      return execute(args)
+    }
+
+    function enqueue(args: unknown[]) {
+      return new Promise<any>((resolve, reject) => {
+        queued.push({
+          start: () => execute(args).then(resolve, reject),
+          drop: (reason) => {
+            try {
+              resolve(dropped(reason))
+            } catch (e) {
+              reject(e)
+            }
+          },
+        })
+        updatePending()
+      })
+    }
+
+    async function execute(args: unknown[]) {
+      const id = ++latestRun
+      const isLatest = () => id === latestRun
+      const controller = new AbortController()
+
+      let drop!: (reason: DropReason) => void
+      const whenDropped = new Promise<DropReason>((resolve) => {
+        drop = resolve
+      })
+
+      let update: OptimisticEntry | undefined
+
+      const tracker =
+        name === undefined ? undefined : registry.track(name, args)
+
+      const handle: RunHandle = {
+        drop(reason) {
+          if (!running.delete(handle)) {
+            return
+          }
+          tracker?.cancel()
+          controller.abort()
+          if (update) {
+            optimistic?.rollback(update)
+          }
+          if (isLatest()) {
+            retrying.value = false
+          }
+          updatePending()
+          drop(reason)
+        },
+      }
+
+      running.add(handle)
       error.value = null
-      pending.value = true
+      attempt.value = 1
+      retrying.value = false
+      progress.value = null
+      status.value = null
+      updatePending()
+
+      const isReporting = () => running.has(handle) && isLatest()
+      const context: ActionContext = {
+        signal: controller.signal,
+        progress(value) {
+          if (isReporting()) {
+            progress.value = toProgressFraction(value)
+          }
+        },
+        status(message) {
+          if (isReporting()) {
+            status.value = message
+          }
+        },
+      }
+      const startedAt = performance.now()
+      const invoke = composeMiddleware(middleware, (args) =>
+        options?.context
+          ? action(...withContext(action, args, context))
+          : action(...args),
+      )
 
       try {
-        const result = await action(...args)
-        pending.value = false
-        return result
+        callHooks(hooks, 'onBefore', { args })
       } catch (e) {
-        pending.value = false
+        settle(false)
+        return fail(e)
+      }
 
-        if (!(e instanceof Error)) {
-          throw new TypeError(`Action threw a non-Error object: ${e}`)
+      function report(parsed: TError, cause: Error) {
+        const duration = performance.now() - startedAt
+        tracker?.fail(parsed)
+        callHooksSafely(hooks, 'onError', {
+          args,
+          error: parsed,
+          cause,
+          duration,
+        })
+        callHooksSafely(hooks, 'onSettled', {
+          args,
+          result: null,
+          error: parsed,
+          duration,
+        })
+      }
+
+      function settle(ok: boolean) {
+        if (update) {
+          if (ok) {
+            optimistic?.commit(update)
+          } else {
+            optimistic?.rollback(update)
+          }
         }
 
-        const err = e as Error
+        running.delete(handle)
+        queued.shift()?.start()
+        if (isLatest()) {
+          retrying.value = false
+        }
+        updatePending()
+      }
 
-        if (!opts?.parseError) {
-          error.value = err.message as TError
+      let promise: Promise<unknown>
+      try {
+        update = optimistic?.apply(args)
+        promise = Promise.resolve(
+          invoke({ args, signal: controller.signal, attempt: 1 }),
+        )
+      } catch (e) {
+        if (!retry) {
+          settle(false)
+          return fail(e)
+        }
+        promise = Promise.reject(e)
+      }
+
+      if (retry) {
+        promise = withRetries(promise, async (attemptNo) => {
+          if (isLatest()) {
+            retrying.value = true
+          }
+
+          await sleep(retryDelay(retry, attemptNo - 1), controller.signal)
+
+          if (isLatest()) {
+            attempt.value = attemptNo
+          }
+
+          return invoke({
+            args,
+            signal: controller.signal,
+            attempt: attemptNo,
+          })
+        })
+      }
+
+      if (opts.timeout) {
+        promise = withTimeout(promise, opts.timeout, controller)
+      }
+
+      const outcome = await Promise.race([
+        promise.then(
+          (value): Outcome => ({ value }),
+          (err): Outcome => ({ err }),
+        ),
+        whenDropped.then((reason): Outcome => ({ reason })),
+      ])
+
+      if ('reason' in outcome) {
+        return dropped(outcome.reason)
+      }
+
+      settle('value' in outcome)
 
-          if (opts?.throw) {
-            throw err
+      if ('value' in outcome) {
+        const duration = performance.now() - startedAt
+        const result = outcome.value
+        tracker?.succeed(result)
+        callHooksSafely(hooks, 'onSuccess', { args, result, duration })
+        callHooksSafely(hooks, 'onSettled', {
+          args,
+          result,
+          error: null,
+          duration,
+        })
+        return result as any
+      }
+
+      return fail(outcome.err)
+
+      function fail(e: unknown) {
+        try {
+          return handleError(e, isLatest(), report)
+        } finally {
+          // Reports errors that are not passed to `report`, e.g. non-Error
+          // objects. Has no effect if the error was already reported.
+          tracker?.fail(e)
+        }
+      }
+    }
+
+    async function withRetries(
+      first: Promise<unknown>,
+      retryAttempt: (attemptNo: number) => unknown,
+    ) {
+      let attemptNo = 1
+      let promise = first
+
+      for (;;) {
+        try {
+          return await promise
+        } catch (e) {
+          if (
+            !retry ||
+            !(e instanceof Error) ||
+            attemptNo > retry.retries ||
+            !(retry.shouldRetry?.(e, attemptNo) ?? true)
+          ) {
+            throw e
           }
 
-          return null as any
+          attemptNo++
+          promise = Promise.resolve(retryAttempt(attemptNo))
+        }
+      }
+    }
+
+    function dropped(reason: DropReason): any {
+      if (reason === 'cancelled' && opts.throw) {
+        throw new CancelledError()
+      }
+      return null
+    }
+
+    function handleError(
+      e: unknown,
+      latest: boolean,
+      report: (parsed: TError, cause: Error) => void,
+    ): any {
+      if (!(e instanceof Error)) {
+        throw new TypeError(`Action threw a non-Error object: ${e}`)
+      }
+
+      const err = e as Error
+
+      if (!opts?.parseError) {
+        if (latest) {
+          error.value = err.message as TError
         }
 
-        error.value = (opts.parseError ? opts.parseError(err) : err) as TError
+        report(err.message as TError, err)
 
-        if (opts.throw) {
-          const terr =
-            error.value instanceof Error
-              ? error.value
-              : new Error(String(error.value))
-          throw terr
+        if (opts?.throw) {
+          throw err
         }
 
-        return null as any
+        return null
+      }
+
+      const parsed = (opts.parseError ? opts.parseError(err) : err) as TError
+
+      if (latest) {
+        error.value = parsed
       }
+
+      report(parsed, err)
+
+      if (opts.throw) {
+        throw parsed instanceof Error ? parsed : new Error(String(parsed))
+      }
+
+      return null
+    }
+
+    /**
+     * Executes a debounced or throttled run immediately, instead of waiting
+     * for the delay to elapse.
+     */
+    function flush() {
+      scheduler?.flush()
+    }
+
+    /**
+     * Cancels all pending runs. Running actions are aborted through their
+     * {@link ActionContext.signal}, and queued, debounced and throttled runs
+     * are discarded.
+     */
+    function cancel() {
+      scheduler?.cancel()
+      queued
+        .splice(0, queued.length)
+        .forEach((entry) => entry.drop('cancelled'))
+      running.forEach((handle) => handle.drop('cancelled'))
+      updatePending()
     }
 
+    tryOnScopeDispose(cancel)
+
     return [
       run,
       {
         pending: computed(() => pending.value),
         error,
+        attempt: computed(() => attempt.value),
+        retrying: computed(() => retrying.value),
+        progress: computed(() => progress.value),
+        status: computed(() => status.value),
+        flush,
+        cancel,
       },
     ] as const
   }
@@ -134,22 +721,103 @@ export function createUseAction<
  * parseError function in the options. If the action is set to disabled via the
  * options, the `run` function will not execute the action and will return
  * `null`.
+ *
+ * The action receives the arguments passed to `run`. With the `context`
+ * option, they are followed by an {@link ActionContext} that provides an
+ * {@link AbortSignal} for the run, and lets the action report its `progress`
+ * and `status`, which are exposed as reactive states of the same names. How
+ * overlapping runs are handled is configured by the `concurrency` option, and
+ * all pending runs can be aborted using the returned `cancel` function. When
+ * the `retry` option is set, the reactive `attempt` and `retrying` states
+ * report the progress of the current run. Lifecycle hooks (`onBefore`,
+ * `onSuccess`, `onError` and `onSettled`) and middleware can be configured
+ * per action, for all actions through {@link createUseAction}, or app-wide
+ * through the `action` config of `createVueUI`. The
+ * `optimistic` option applies an update before the action is executed and
+ * rolls it back if the run fails or is cancelled. Calls to `run` can be
+ * delayed using the `debounce` and `throttle` options, and limited in
+ * duration using the `timeout` option.
  */
 export const useAction = createUseAction()
 
+/**
+ * Arguments of the `run` function for {@link TAction}. If the `context`
+ * option is enabled and the last parameter of the action is an
+ * {@link ActionContext}, it is omitted because `useAction` provides it.
+ */
+export type ActionArgs<
+  TAction extends (...args: any[]) => any,
+  TContext extends boolean = true,
+> = [TContext] extends [true]
+  ? Parameters<TAction> extends [...infer Args, infer Last]
+    ? IsActionContext<Last> extends true
+      ? Args
+      : Parameters<TAction>
+    : Parameters<TAction>
+  : Parameters<TAction>
+
+/**
+ * Returns the arguments for an action that enabled the `context` option:
+ * the arguments of `run`, followed by the context. Omitted optional
+ * parameters are filled with `undefined`, so that the context is passed as
+ * the last declared parameter.
+ */
+function withContext(
+  action: (...args: any[]) => unknown,
+  args: readonly unknown[],
+  context: ActionContext,
+) {
+  return [
+    ...Array.from(
+      { length: Math.max(args.length, action.length - 1) },
+      (_, i) => args[i],
+    ),
+    context,
+  ]
+}
+
+type IsActionContext<T> = 0 extends 1 & T
+  ? false
+  : [T] extends [ActionContext]
+    ? true
+    : false
+
+type DropReason = 'cancelled' | 'superseded'
+
+interface RunHandle {
+  drop: (reason: DropReason) => void
+}
+
+interface QueueEntry {
+  start: () => void
+  drop: (reason: DropReason) => void
+}
+
+type Outcome = { value: unknown } | { err: unknown } | { reason: DropReason }
+
 type Result<
   Action extends (...args: any[]) => any,
   Disabled extends boolean,
   Throw extends boolean,
+  Strategy extends Concurrency = 'parallel',
+  Throttle extends ThrottleOption | undefined = undefined,
   Return = _Awaited<ReturnType<Action>>,
 > = [Disabled] extends [true]
   ? null
   : null extends Return
     ? Return
     : [Throw] extends [true]
-      ? Return
+      ? Return | DroppedResult<Strategy, Throttle>
       : Return | NullResult<Throw>
 
 type _Awaited<T> = T extends PromiseLike<infer U> ? _Awaited<U> : T
 
 type NullResult<Throw> = [Throw] extends [true] ? never : null
+
+type DroppedResult<Strategy, Throttle> = [Strategy] extends [
+  'parallel' | 'queue',
+]
+  ? [Throttle] extends [number | { trailing?: true } | undefined]
+    ? never
+    : null
+  : null
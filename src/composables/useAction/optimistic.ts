@@ -0,0 +1,113 @@
+import type { Ref } from 'vue'
+
+/**
+ * Optimistic update of an action. Either a function that applies the update
+ * and returns a callback that reverts it, or an
+ * {@link OptimisticRefUpdate} that computes the next value of a ref.
+ */
+export type OptimisticUpdate<TArgs extends readonly unknown[]> =
+  ((...args: TArgs) => (() => void) | void) | OptimisticRefUpdate<TArgs>
+
+/**
+ * Optimistically replaces the value of {@link target}. The previous value is
+ * kept as a snapshot and restored when the run fails.
+ */
+export interface OptimisticRefUpdate<
+  TArgs extends readonly unknown[],
+  T = any,
+> {
+  /**
+   * Ref that is updated optimistically.
+   */
+  target: Ref<T>
+
+  /**
+   * Returns the optimistic value of {@link target}. Must not mutate `value`.
+   */
+  update: (value: T, ...args: TArgs) => T
+}
+
+export interface OptimisticEntry {
+  args: readonly unknown[]
+  revert: () => void
+  committed: boolean
+}
+
+/**
+ * Keeps track of the optimistic updates of overlapping runs. When a run
+ * fails, the updates of all later runs are reverted first, then the update
+ * of the failed run, and finally the later updates are re-applied on top of
+ * the restored state.
+ */
+export function createOptimisticStack(
+  update: OptimisticUpdate<readonly unknown[]>,
+) {
+  const stack: OptimisticEntry[] = []
+
+  function applyUpdate(args: readonly unknown[]): () => void {
+    if (typeof update === 'function') {
+      return update(...args) ?? (() => {})
+    }
+
+    const { target } = update
+    const snapshot = target.value
+    target.value = update.update(snapshot, ...args)
+
+    return () => {
+      target.value = snapshot
+    }
+  }
+
+  function prune() {
+    while (stack[0]?.committed) {
+      stack.shift()
+    }
+  }
+
+  /**
+   * Applies the update for a run.
+   */
+  function apply(args: readonly unknown[]) {
+    const entry: OptimisticEntry = {
+      args,
+      revert: applyUpdate(args),
+      committed: false,
+    }
+    stack.push(entry)
+    return entry
+  }
+
+  /**
+   * Keeps the update of a successful run.
+   */
+  function commit(entry: OptimisticEntry) {
+    entry.committed = true
+    prune()
+  }
+
+  /**
+   * Reverts the update of a failed or cancelled run.
+   */
+  function rollback(entry: OptimisticEntry) {
+    const index = stack.indexOf(entry)
+    if (index < 0) {
+      return
+    }
+
+    const later = stack.slice(index + 1)
+    for (let i = later.length - 1; i >= 0; i--) {
+      later[i].revert()
+    }
+    entry.revert()
+
+    stack.splice(index)
+    for (const next of later) {
+      next.revert = applyUpdate(next.args)
+      stack.push(next)
+    }
+
+    prune()
+  }
+
+  return { apply, commit, rollback }
+}
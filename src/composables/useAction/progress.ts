@@ -0,0 +1,134 @@
+/**
+ * Progress of a run. Either a fraction between `0` and `1`, or the number of
+ * loaded units along with the total number of units.
+ */
+export type ProgressValue = number | { loaded: number; total: number }
+
+/**
+ * Reports the progress of a run, e.g. {@link ActionContext.progress}.
+ */
+export type ProgressReporter = (value: ProgressValue) => void
+
+/**
+ * Converts a {@link ProgressValue} into a fraction between `0` and `1`.
+ * Returns `null` if the progress is unknown, e.g. if the total is `0`.
+ */
+export function toProgressFraction(value: ProgressValue): number | null {
+  const fraction =
+    typeof value === 'number'
+      ? value
+      : value.total > 0
+        ? value.loaded / value.total
+        : Number.NaN
+
+  return Number.isNaN(fraction) ? null : Math.min(Math.max(fraction, 0), 1)
+}
+
+/**
+ * Splits the progress of a run into sub-steps. Returns a reporter for each
+ * step that reports the progress of the step to {@link report}, weighted by
+ * the step's share of the total. Steps are either the number of equally
+ * weighted steps, or the weight of each step.
+ *
+ * @example
+ * ```ts
+ * const [run] = useAction(async (file: File, { progress }) => {
+ *   const [upload, process] = splitProgress(progress, [3, 1])
+ *   const id = await uploadFile(file, upload)
+ *   await processFile(id, process)
+ * })
+ * ```
+ */
+export function splitProgress(
+  report: ProgressReporter,
+  steps: number | readonly number[],
+): ProgressReporter[] {
+  const weights =
+    typeof steps === 'number' ? Array.from({ length: steps }, () => 1) : steps
+  const total = weights.reduce((sum, weight) => sum + weight, 0)
+  const fractions = weights.map(() => 0)
+
+  return weights.map((weight, index) => (value) => {
+    fractions[index] = toProgressFraction(value) ?? fractions[index]
+    report(
+      total > 0
+        ? fractions.reduce(
+            (sum, fraction, i) => sum + (fraction * weights[i]) / total,
+            0,
+          )
+        : 0,
+    )
+  })
+}
+
+/**
+ * Returns a stream that passes the chunks of {@link stream} through, and
+ * reports the number of loaded bytes as they are read. Without a `total`,
+ * only the start and end of the stream are reported.
+ */
+export function trackStreamProgress(
+  stream: ReadableStream<Uint8Array>,
+  report: ProgressReporter,
+  total?: number,
+): ReadableStream<Uint8Array> {
+  const reader = stream.getReader()
+  let loaded = 0
+
+  return new ReadableStream<Uint8Array>({
+    start() {
+      report(total ? { loaded, total } : 0)
+    },
+
+    async pull(controller) {
+      const { done, value } = await reader.read()
+      if (done) {
+        report(1)
+        controller.close()
+        return
+      }
+
+      loaded += value.byteLength
+      if (total) {
+        report({ loaded, total })
+      }
+      controller.enqueue(value)
+    },
+
+    cancel(reason) {
+      return reader.cancel(reason)
+    },
+  })
+}
+
+/**
+ * Returns a response that reports the download progress of its body as it is
+ * read, e.g. using `response.json()`. The total is taken from the
+ * `Content-Length` header.
+ *
+ * @example
+ * ```ts
+ * const [run, { progress }] = useAction(async (url: string, ctx) => {
+ *   const response = await fetch(url, { signal: ctx.signal })
+ *   return trackResponseProgress(response, ctx.progress).blob()
+ * })
+ * ```
+ */
+export function trackResponseProgress(
+  response: Response,
+  report: ProgressReporter,
+): Response {
+  if (!response.body) {
+    return response
+  }
+
+  const length = Number(response.headers.get('Content-Length'))
+
+  return new Response(
+    trackStreamProgress(response.body, report, length || undefined),
+    {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    },
+  )
+}
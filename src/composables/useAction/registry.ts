@@ -0,0 +1,226 @@
+import { computed, shallowRef } from 'vue'
+import { useVueUIConfig } from '../../plugin'
+
+/**
+ * Status of a registered run.
+ */
+export type ActionRunStatus = 'pending' | 'success' | 'error' | 'cancelled'
+
+/**
+ * A run of a registered action.
+ */
+export interface ActionRun {
+  /**
+   * Unique id of the run within its registry.
+   */
+  readonly id: number
+
+  /**
+   * Name the action was registered with.
+   */
+  readonly name: string
+
+  /**
+   * Arguments passed to `run`.
+   */
+  readonly args: readonly unknown[]
+
+  /**
+   * Timestamp at which the run started, in milliseconds since the epoch.
+   */
+  readonly startedAt: number
+
+  status: ActionRunStatus
+
+  /**
+   * Duration of the run in milliseconds, or `null` while it is pending.
+   */
+  duration: number | null
+
+  /**
+   * Value returned by the action, if the run succeeded.
+   */
+  result: unknown
+
+  /**
+   * Error returned by `parseError`, if the run failed.
+   */
+  error: unknown
+}
+
+/**
+ * Emitted by an {@link ActionRegistry} when a run starts or settles.
+ */
+export interface ActionRegistryEvent {
+  type: 'start' | 'settle'
+  run: ActionRun
+}
+
+/**
+ * Reports the outcome of a run to the registry. Only the first call has an
+ * effect.
+ */
+export interface ActionRunTracker {
+  succeed: (result: unknown) => void
+  fail: (error: unknown) => void
+  cancel: () => void
+}
+
+/**
+ * Defines configuration options for {@link createActionRegistry}.
+ */
+export interface ActionRegistryOptions {
+  /**
+   * Maximum number of failed runs that are kept in `errors`.
+   *
+   * @default 20
+   */
+  maxErrors?: number
+}
+
+/**
+ * Registry that keeps track of the runs of named actions across the app, e.g.
+ * for a global loading bar, or to warn about unsaved changes before
+ * navigating away.
+ */
+export type ActionRegistry = ReturnType<typeof createActionRegistry>
+
+/**
+ * Creates an {@link ActionRegistry}. Actions are registered by passing a
+ * `name` to `useAction`, or by enabling the `register` option of
+ * `createUseAction`.
+ *
+ * @example
+ * ```ts
+ * const { isBusy, isRunning } = useActionRegistry()
+ *
+ * router.beforeEach(() => !isRunning('saveDraft') || confirm('Discard?'))
+ * ```
+ */
+export function createActionRegistry(options?: ActionRegistryOptions) {
+  const maxErrors = options?.maxErrors ?? 20
+
+  const running = shallowRef<readonly ActionRun[]>([])
+  const failed = shallowRef<readonly ActionRun[]>([])
+  const listeners = new Set<(event: ActionRegistryEvent) => void>()
+
+  let nextId = 0
+
+  /**
+   * Runs that are currently pending, in start order.
+   */
+  const runs = computed(() => running.value)
+
+  /**
+   * Recently failed runs, most recent first.
+   */
+  const errors = computed(() => failed.value)
+
+  /**
+   * Whether any registered action is running.
+   */
+  const isBusy = computed(() => running.value.length > 0)
+
+  /**
+   * Whether an action with the name is running.
+   */
+  function isRunning(name: string) {
+    return running.value.some((run) => run.name === name)
+  }
+
+  /**
+   * Returns the pending runs of the actions with the name.
+   */
+  function runsOf(name: string) {
+    return running.value.filter((run) => run.name === name)
+  }
+
+  function clearErrors() {
+    failed.value = []
+  }
+
+  /**
+   * Calls the listener whenever a run starts or settles. Returns a function
+   * that removes the listener.
+   */
+  function subscribe(listener: (event: ActionRegistryEvent) => void) {
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  }
+
+  function emit(event: ActionRegistryEvent) {
+    listeners.forEach((listener) => listener(event))
+  }
+
+  /**
+   * Registers a run of the named action. Called by `useAction`.
+   */
+  function track(name: string, args: readonly unknown[]): ActionRunTracker {
+    const run: ActionRun = {
+      id: ++nextId,
+      name,
+      args,
+      startedAt: Date.now(),
+      status: 'pending',
+      duration: null,
+      result: undefined,
+      error: null,
+    }
+    const start = performance.now()
+
+    running.value = [...running.value, run]
+    emit({ type: 'start', run })
+
+    function finish(status: ActionRunStatus, outcome: Partial<ActionRun>) {
+      if (run.status !== 'pending') {
+        return
+      }
+
+      Object.assign(run, outcome, {
+        status,
+        duration: performance.now() - start,
+      })
+
+      running.value = running.value.filter((other) => other !== run)
+      if (status === 'error') {
+        failed.value = [run, ...failed.value].slice(0, maxErrors)
+      }
+      emit({ type: 'settle', run })
+    }
+
+    return {
+      succeed: (result) => finish('success', { result }),
+      fail: (error) => finish('error', { error }),
+      cancel: () => finish('cancelled', {}),
+    }
+  }
+
+  return {
+    runs,
+    errors,
+    isBusy,
+    isRunning,
+    runsOf,
+    clearErrors,
+    subscribe,
+    track,
+  }
+}
+
+/**
+ * Registry that actions are registered in unless another registry is
+ * configured. During SSR, configure a registry per request instead, so that
+ * runs of different requests are not mixed.
+ */
+export const actionRegistry = createActionRegistry()
+
+/**
+ * Returns the registry that actions of the current component are registered
+ * in: the `registry` of the `action` config of `createVueUI`, or
+ * {@link actionRegistry}.
+ */
+export function useActionRegistry(): ActionRegistry {
+  return useVueUIConfig().action?.registry ?? actionRegistry
+}
@@ -0,0 +1,108 @@
+/**
+ * Configures how failed runs of an action are retried.
+ */
+export interface RetryOptions {
+  /**
+   * Maximum number of retries after the initial attempt.
+   */
+  retries: number
+
+  /**
+   * How the delay between attempts grows. `fixed` always waits `delay`
+   * milliseconds, `exponential` doubles the delay after each attempt.
+   *
+   * @default 'exponential'
+   */
+  backoff?: 'fixed' | 'exponential'
+
+  /**
+   * Delay before the first retry in milliseconds.
+   *
+   * @default 1000
+   */
+  delay?: number
+
+  /**
+   * Upper bound for the delay between attempts in milliseconds.
+   *
+   * @default 30000
+   */
+  maxDelay?: number
+
+  /**
+   * Randomizes each delay between `0` and the computed delay to avoid many
+   * clients retrying at the same time.
+   *
+   * @default false
+   */
+  jitter?: boolean
+
+  /**
+   * Decides whether a failed attempt should be retried. Called with the
+   * (unparsed) error and the number of the attempt that failed, starting at
+   * `1`. By default, every error is retried.
+   */
+  shouldRetry?: (error: Error, attempt: number) => boolean
+}
+
+/**
+ * Retry configuration accepted by `useAction`. A number is shorthand for
+ * `{ retries: number }`, `false` disables retries.
+ */
+export type RetryOption = number | false | RetryOptions
+
+/**
+ * Normalizes a {@link RetryOption} into {@link RetryOptions}, or `null` if
+ * retries are disabled.
+ */
+export function resolveRetry(option?: RetryOption | null): RetryOptions | null {
+  if (option === undefined || option === null || option === false) {
+    return null
+  }
+
+  const opts = typeof option === 'number' ? { retries: option } : option
+
+  return opts.retries > 0 ? opts : null
+}
+
+/**
+ * Returns the number of milliseconds to wait before retrying the given failed
+ * attempt.
+ */
+export function retryDelay(options: RetryOptions, attempt: number) {
+  const base = options.delay ?? 1000
+  const max = options.maxDelay ?? 30000
+
+  const delay = Math.min(
+    (options.backoff ?? 'exponential') === 'exponential'
+      ? base * 2 ** (attempt - 1)
+      : base,
+    max,
+  )
+
+  return options.jitter ? Math.random() * delay : delay
+}
+
+/**
+ * Returns a {@link Promise} that resolves after the given number of
+ * milliseconds, or rejects as soon as the signal is aborted.
+ */
+export function sleep(ms: number, signal: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      return reject(signal.reason)
+    }
+
+    const timeout = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+
+    function onAbort() {
+      clearTimeout(timeout)
+      reject(signal.reason)
+    }
+
+    signal.addEventListener('abort', onAbort, { once: true })
+  })
+}
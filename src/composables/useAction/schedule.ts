@@ -0,0 +1,212 @@
+/**
+ * Configures how calls to `run` are throttled.
+ */
+export interface ThrottleOptions {
+  /**
+   * Minimum number of milliseconds between the start of two runs.
+   */
+  wait: number
+
+  /**
+   * Whether the first call of a burst executes immediately.
+   *
+   * @default true
+   */
+  leading?: boolean
+
+  /**
+   * Whether the last call within the wait time executes once the wait time
+   * has elapsed. If `false`, calls within the wait time resolve to `null`.
+   *
+   * @default true
+   */
+  trailing?: boolean
+}
+
+/**
+ * Throttle configuration accepted by `useAction`. A number is shorthand for
+ * `{ wait: number }`.
+ */
+export type ThrottleOption = number | ThrottleOptions
+
+/**
+ * Thrown (or passed to `parseError`) when a run does not settle within the
+ * `timeout` of the action.
+ */
+export class TimeoutError extends Error {
+  constructor(
+    /**
+     * Timeout of the action in milliseconds.
+     */
+    public readonly timeout: number,
+    message = `Action timed out after ${timeout}ms`,
+  ) {
+    super(message)
+    this.name = 'TimeoutError'
+  }
+}
+
+/**
+ * Delays calls to `run` according to the `debounce` and `throttle` options
+ * of an action.
+ */
+export interface Scheduler {
+  /**
+   * Schedules a call. Resolves with the result of the run that eventually
+   * executes.
+   */
+  schedule: (args: unknown[]) => Promise<unknown>
+
+  /**
+   * Whether a call is waiting to be executed.
+   */
+  readonly scheduled: boolean
+
+  /**
+   * Executes the waiting call immediately.
+   */
+  flush: () => void
+
+  /**
+   * Discards the waiting call. Its callers receive the result of `dropped`.
+   */
+  cancel: () => void
+}
+
+interface ScheduledCall {
+  resolve: (value: unknown) => void
+  reject: (reason: unknown) => void
+}
+
+/**
+ * Creates a {@link Scheduler} for the given options, or `null` if calls
+ * should execute immediately. Waiting calls are collapsed into a single run
+ * with the arguments of the last call. `dropped` returns the result of calls
+ * that are cancelled. If both options are set, `throttle` takes precedence.
+ */
+export function createScheduler(
+  options: { debounce?: number; throttle?: ThrottleOption },
+  execute: (args: unknown[]) => Promise<unknown>,
+  dropped: () => unknown,
+  onChange: () => void,
+): Scheduler | null {
+  const throttle =
+    typeof options.throttle === 'number'
+      ? { wait: options.throttle }
+      : options.throttle
+  const debounce = options.debounce ?? 0
+
+  if (!(debounce > 0) && !(throttle && throttle.wait > 0)) {
+    return null
+  }
+
+  const leading = throttle?.leading ?? true
+  const trailing = throttle?.trailing ?? true
+
+  let timer: ReturnType<typeof setTimeout> | undefined
+  let waiting: ScheduledCall[] = []
+  let lastArgs: unknown[] = []
+  let lastStart = Number.NEGATIVE_INFINITY
+
+  function wait(args: unknown[], ms: number) {
+    lastArgs = args
+    return new Promise<unknown>((resolve, reject) => {
+      waiting.push({ resolve, reject })
+      onChange()
+      if (timer === undefined) {
+        timer = setTimeout(flush, ms)
+      }
+    })
+  }
+
+  function take() {
+    clearTimeout(timer)
+    timer = undefined
+    const calls = waiting
+    waiting = []
+    return calls
+  }
+
+  function schedule(args: unknown[]) {
+    if (!throttle) {
+      clearTimeout(timer)
+      timer = undefined
+      return wait(args, debounce)
+    }
+
+    const remaining = throttle.wait - (Date.now() - lastStart)
+    if (leading && remaining <= 0 && timer === undefined) {
+      lastStart = Date.now()
+      return execute(args)
+    }
+
+    if (!trailing) {
+      return Promise.resolve(null)
+    }
+
+    return wait(args, remaining > 0 ? remaining : throttle.wait)
+  }
+
+  function flush() {
+    const calls = take()
+    if (!calls.length) {
+      return
+    }
+
+    lastStart = Date.now()
+    execute(lastArgs).then(
+      (value) => calls.forEach((call) => call.resolve(value)),
+      (reason) => calls.forEach((call) => call.reject(reason)),
+    )
+    onChange()
+  }
+
+  function cancel() {
+    take().forEach((call) => {
+      try {
+        call.resolve(dropped())
+      } catch (e) {
+        call.reject(e)
+      }
+    })
+    onChange()
+  }
+
+  return {
+    schedule,
+    get scheduled() {
+      return waiting.length > 0
+    },
+    flush,
+    cancel,
+  }
+}
+
+/**
+ * Rejects with a {@link TimeoutError} and aborts the controller if the
+ * promise does not settle within the given number of milliseconds.
+ */
+export function withTimeout<T>(
+  promise: Promise<T>,
+  ms: number,
+  controller: AbortController,
+) {
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      const error = new TimeoutError(ms)
+      controller.abort(error)
+      reject(error)
+    }, ms)
+
+    promise.then(
+      (value) => {
+        clearTimeout(timer)
+        resolve(value)
+      },
+      (reason) => {
+        clearTimeout(timer)
+        reject(reason)
+      },
+    )
+  })
+}
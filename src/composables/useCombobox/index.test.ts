@@ -0,0 +1,226 @@
+import { describe, expect, it, vi } from 'vitest'
+import { nextTick } from 'vue'
+import { useSearch } from '../useSearch'
+import { useCombobox } from './index'
+
+const people = ['Bob', 'Linda', 'Tina', 'Gene', 'Louise']
+
+function keydown(key: string) {
+  return { key, preventDefault: vi.fn() } as unknown as KeyboardEvent
+}
+
+function setup(options?: Parameters<typeof useCombobox<string>>[1]) {
+  const search = useSearch(people, (name) => name)
+  const combobox = useCombobox(search, {
+    id: 'people',
+    label: (name) => name,
+    ...options,
+  })
+  const press = (key: string) =>
+    combobox.inputProps.value.onKeydown(keydown(key))
+
+  return { ...search, ...combobox, press }
+}
+
+describe('useCombobox', () => {
+  it('returns ARIA props', () => {
+    const { inputProps, listboxProps, optionProps, press } = setup()
+
+    expect(inputProps.value).toMatchObject({
+      id: 'people',
+      role: 'combobox',
+      'aria-expanded': false,
+      'aria-controls': 'people-listbox',
+      'aria-activedescendant': undefined,
+    })
+    expect(listboxProps.value).toMatchObject({
+      id: 'people-listbox',
+      role: 'listbox',
+      'aria-labelledby': undefined,
+      'aria-multiselectable': undefined,
+    })
+    expect(optionProps(1)).toMatchObject({
+      id: 'people-option-1',
+      role: 'option',
+      'aria-selected': false,
+    })
+
+    press('ArrowDown')
+    expect(inputProps.value).toMatchObject({
+      'aria-expanded': true,
+      'aria-activedescendant': 'people-option-0',
+    })
+  })
+
+  it('labels the listbox with the label element', () => {
+    const { listboxProps } = setup({ labelId: 'people-label' })
+
+    expect(listboxProps.value['aria-labelledby']).toBe('people-label')
+  })
+
+  it('generates unique ids', () => {
+    const search = useSearch(people, (name) => name)
+    const a = useCombobox(search)
+    const b = useCombobox(search)
+
+    expect(a.inputProps.value.id).not.toBe(b.inputProps.value.id)
+  })
+
+  it('navigates with the keyboard', () => {
+    const { open, activeIndex, activeItem, press } = setup()
+
+    press('ArrowDown')
+    expect(open.value).toBe(true)
+    expect(activeItem.value).toBe('Bob')
+
+    press('ArrowDown')
+    press('ArrowDown')
+    expect(activeItem.value).toBe('Tina')
+
+    press('End')
+    expect(activeIndex.value).toBe(4)
+
+    press('ArrowDown')
+    expect(activeIndex.value).toBe(0)
+
+    press('ArrowUp')
+    expect(activeIndex.value).toBe(4)
+
+    press('Home')
+    expect(activeIndex.value).toBe(0)
+  })
+
+  it('opens at the last option with ArrowUp', () => {
+    const { open, activeItem, press } = setup()
+
+    press('ArrowUp')
+    expect(open.value).toBe(true)
+    expect(activeItem.value).toBe('Louise')
+  })
+
+  it('clamps instead of wrapping', () => {
+    const { activeIndex, press } = setup({ wrap: false })
+
+    press('ArrowDown')
+    press('ArrowUp')
+    expect(activeIndex.value).toBe(0)
+
+    press('End')
+    press('ArrowDown')
+    expect(activeIndex.value).toBe(4)
+  })
+
+  it('ignores Home and End while closed', () => {
+    const { activeIndex, inputProps } = setup()
+    const event = keydown('End')
+
+    inputProps.value.onKeydown(event)
+    expect(activeIndex.value).toBe(-1)
+    expect(event.preventDefault).not.toHaveBeenCalled()
+  })
+
+  it('resets the active option when the result changes', async () => {
+    const { input, activeIndex, press } = setup()
+
+    press('ArrowDown')
+    press('ArrowDown')
+    input.value = 'in'
+    await nextTick()
+
+    expect(activeIndex.value).toBe(-1)
+  })
+
+  it('activates the first option automatically', async () => {
+    const { input, activeItem, inputProps, press } = setup({
+      autoActivate: true,
+    })
+
+    input.value = 'in'
+    inputProps.value.onInput()
+    await nextTick()
+    expect(activeItem.value).toBe('Linda')
+
+    press('Enter')
+    expect(input.value).toBe('Linda')
+  })
+
+  it('selects a single item', () => {
+    const { input, open, selected, isSelected, optionProps, press } = setup()
+
+    press('ArrowDown')
+    press('ArrowDown')
+    press('Enter')
+
+    expect(selected.value).toBe('Linda')
+    expect(isSelected('Linda')).toBe(true)
+    expect(input.value).toBe('Linda')
+    expect(open.value).toBe(false)
+
+    input.value = ''
+    optionProps(2).onClick()
+    expect(selected.value).toBe('Tina')
+  })
+
+  it('selects multiple items', () => {
+    const search = useSearch(people, (name) => name)
+    const { open, selected, listboxProps, optionProps, inputProps } =
+      useCombobox(search, { multiple: true, selected: ['Gene'] })
+    const press = (key: string) => inputProps.value.onKeydown(keydown(key))
+
+    expect(listboxProps.value['aria-multiselectable']).toBe(true)
+
+    press('ArrowDown')
+    press('Enter')
+    optionProps(2).onClick()
+    expect(selected.value).toEqual(['Gene', 'Bob', 'Tina'])
+    expect(optionProps(2)['aria-selected']).toBe(true)
+    expect(open.value).toBe(true)
+    expect(search.input.value).toBe('')
+
+    optionProps(0).onClick()
+    expect(selected.value).toEqual(['Gene', 'Tina'])
+  })
+
+  it('identifies items by key', () => {
+    const search = useSearch(
+      [
+        { id: 1, name: 'Bob' },
+        { id: 2, name: 'Linda' },
+      ],
+      ['name'],
+    )
+    const { isSelected, selected } = useCombobox(search, {
+      key: (person) => person.id,
+      selected: { id: 2, name: 'Linda' },
+    })
+
+    expect(isSelected(search.result.value[1])).toBe(true)
+
+    selected.value = null
+    expect(isSelected(search.result.value[1])).toBe(false)
+  })
+
+  it('closes and clears with Escape', () => {
+    const { input, open, press } = setup()
+
+    input.value = 'bob'
+    press('ArrowDown')
+    press('Escape')
+    expect(open.value).toBe(false)
+    expect(input.value).toBe('bob')
+
+    press('Escape')
+    expect(input.value).toBe('')
+  })
+
+  it('scrolls the active option into view', async () => {
+    const scrollIntoView = vi.fn()
+    const { press } = setup({ scrollIntoView })
+
+    press('ArrowDown')
+    press('ArrowUp')
+    await nextTick()
+
+    expect(scrollIntoView).toHaveBeenCalledWith('people-option-4')
+  })
+})
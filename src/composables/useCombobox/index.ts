@@ -0,0 +1,373 @@
+import { type Ref, computed, ref, watch } from 'vue'
+import { applyDefaults } from '../../shared'
+import { useVueUIConfig } from '../../plugin'
+
+let nextId = 0
+
+/**
+ * Defines configuration options for the `useCombobox` composable.
+ */
+export interface UseComboboxOptions<T, TMultiple extends boolean = false> {
+  /**
+   * Allows selecting multiple items. Selecting an item toggles its selection
+   * and keeps the listbox open.
+   *
+   * @default false
+   */
+  multiple?: TMultiple
+
+  /**
+   * Returns a key that identifies an item. Defaults to the item itself.
+   */
+  key?: (item: T) => unknown
+
+  /**
+   * Returns the text of an item. In single-select mode, the input is set to
+   * the text of the selected item.
+   */
+  label?: (item: T) => string
+
+  /**
+   * Initially selected items.
+   */
+  selected?: ComboboxSelection<T, TMultiple>
+
+  /**
+   * Moving past the last option activates the first one and vice versa.
+   * Otherwise, the active option stops at the first and last option.
+   *
+   * @default true
+   */
+  wrap?: boolean
+
+  /**
+   * Activates the first option whenever the options change, so that Enter
+   * selects it.
+   *
+   * @default false
+   */
+  autoActivate?: boolean
+
+  /**
+   * Scrolls the active option into view. Either `true` to use
+   * `Element.scrollIntoView`, or a function that receives the id of the
+   * active option.
+   *
+   * @default true
+   */
+  scrollIntoView?: boolean | ((id: string) => void)
+
+  /**
+   * Base id of the elements. Must be stable for SSR.
+   *
+   * @default 'combobox-<n>'
+   */
+  id?: string
+
+  /**
+   * Id of the element that labels the combobox, e.g. a `<label>`. The listbox
+   * references it using `aria-labelledby`. If omitted, the listbox has no
+   * `aria-labelledby` attribute.
+   */
+  labelId?: string
+}
+
+/**
+ * The selected items in multi-select mode, or the selected item in
+ * single-select mode.
+ */
+export type ComboboxSelection<
+  T,
+  TMultiple extends boolean,
+> = TMultiple extends true ? T[] : T | null
+
+/**
+ * The input and result of a search, e.g. the return value of `useSearch`.
+ */
+export interface ComboboxSource<T> {
+  input: Ref<string>
+  result: Readonly<Ref<readonly T[]>>
+}
+
+/**
+ * Adds keyboard navigation, selection and WAI-ARIA attributes for a
+ * combobox to a search. Bind `inputProps` to the input, `listboxProps` to the
+ * list of options and `optionProps(index)` to each option.
+ *
+ * Keyboard interaction:
+ * - ArrowDown/ArrowUp: opens the listbox, or activates the next/previous
+ *   option.
+ * - Home/End: activates the first/last option while the listbox is open.
+ * - Enter: selects the active option.
+ * - Escape: closes the listbox, or clears the input if it is closed.
+ *
+ * @example
+ * ```vue
+ * <script setup lang="ts">
+ * const search = useSearch(people, ['name'])
+ * const { open, inputProps, listboxProps, optionProps } = useCombobox(search, {
+ *   label: (person) => person.name,
+ * })
+ * </script>
+ *
+ * <template>
+ *   <input v-model="search.input.value" v-bind="inputProps">
+ *   <ul v-show="open" v-bind="listboxProps">
+ *     <li v-for="(person, index) in search.result.value" v-bind="optionProps(index)">
+ *       {{ person.name }}
+ *     </li>
+ *   </ul>
+ * </template>
+ * ```
+ */
+export function useCombobox<T, TMultiple extends boolean = false>(
+  source: ComboboxSource<T>,
+  options?: UseComboboxOptions<T, TMultiple>,
+) {
+  options = applyDefaults(options, useVueUIConfig().combobox)
+
+  const { input, result } = source
+  const multiple = !!options?.multiple
+  const wrap = options?.wrap ?? true
+  const getKey = options?.key ?? ((item: T) => item)
+
+  const id = options?.id ?? `combobox-${++nextId}`
+  const listboxId = `${id}-listbox`
+
+  function optionId(index: number) {
+    return `${id}-option-${index}`
+  }
+
+  /**
+   * Whether the listbox is open.
+   */
+  const open = ref(false)
+
+  /**
+   * Index of the active option in the result, or `-1` if no option is
+   * active.
+   */
+  const activeIndex = ref(-1)
+
+  /**
+   * The item of the active option.
+   */
+  const activeItem = computed(() =>
+    activeIndex.value >= 0 ? (result.value[activeIndex.value] ?? null) : null,
+  )
+
+  function toItems(selection: ComboboxSelection<T, TMultiple> | undefined) {
+    const items = selection as T[] | T | null | undefined
+    return Array.isArray(items) ? [...items] : items != null ? [items] : []
+  }
+
+  const selectedItems = ref(toItems(options?.selected)) as Ref<T[]>
+
+  /**
+   * The selected item in single-select mode, or the selected items in
+   * multi-select mode.
+   */
+  const selected = computed({
+    get: () =>
+      (multiple
+        ? selectedItems.value
+        : (selectedItems.value[0] ?? null)) as ComboboxSelection<T, TMultiple>,
+    set: (value) => {
+      selectedItems.value = toItems(value)
+    },
+  })
+
+  watch(result, () => {
+    activeIndex.value = options?.autoActivate && result.value.length ? 0 : -1
+  })
+
+  watch(
+    activeIndex,
+    (index) => {
+      const scroll = options?.scrollIntoView ?? true
+      if (index < 0 || !scroll) {
+        return
+      }
+
+      if (typeof scroll === 'function') {
+        scroll(optionId(index))
+      } else if (typeof document !== 'undefined') {
+        document
+          .getElementById(optionId(index))
+          ?.scrollIntoView({ block: 'nearest' })
+      }
+    },
+    // Runs after the DOM is updated, so that the option exists.
+    { flush: 'post' },
+  )
+
+  function show() {
+    open.value = true
+  }
+
+  function close() {
+    open.value = false
+    activeIndex.value = -1
+  }
+
+  /**
+   * Activates the option at the index. Out-of-range indexes wrap around or
+   * are clamped, depending on the `wrap` option.
+   */
+  function activate(index: number) {
+    const count = result.value.length
+    if (!count) {
+      activeIndex.value = -1
+      return
+    }
+
+    activeIndex.value = wrap
+      ? (index + count) % count
+      : Math.min(Math.max(index, 0), count - 1)
+  }
+
+  function isSelected(item: T) {
+    const key = getKey(item)
+    return selectedItems.value.some((selected) => getKey(selected) === key)
+  }
+
+  /**
+   * Selects the item. In single-select mode, the input is set to the label
+   * of the item and the listbox is closed. In multi-select mode, the
+   * selection of the item is toggled.
+   */
+  function select(item: T) {
+    if (multiple) {
+      if (isSelected(item)) {
+        deselect(item)
+      } else {
+        selectedItems.value = [...selectedItems.value, item]
+      }
+      return
+    }
+
+    selectedItems.value = [item]
+    if (options?.label) {
+      input.value = options.label(item)
+    }
+    close()
+  }
+
+  function deselect(item: T) {
+    const key = getKey(item)
+    selectedItems.value = selectedItems.value.filter(
+      (selected) => getKey(selected) !== key,
+    )
+  }
+
+  function clear() {
+    selectedItems.value = []
+  }
+
+  function onKeydown(event: KeyboardEvent) {
+    switch (event.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        event.preventDefault()
+        const down = event.key === 'ArrowDown'
+        if (!open.value) {
+          show()
+          activate(down ? 0 : -1)
+        } else {
+          activate(activeIndex.value + (down ? 1 : -1))
+        }
+        break
+      }
+
+      case 'Home':
+      case 'End':
+        if (open.value) {
+          event.preventDefault()
+          activate(event.key === 'Home' ? 0 : result.value.length - 1)
+        }
+        break
+
+      case 'Enter':
+        if (open.value && activeItem.value !== null) {
+          event.preventDefault()
+          select(activeItem.value)
+        }
+        break
+
+      case 'Escape':
+        event.preventDefault()
+        if (open.value) {
+          close()
+        } else {
+          input.value = ''
+        }
+        break
+    }
+  }
+
+  /**
+   * Props for the input element.
+   */
+  const inputProps = computed(() => ({
+    id,
+    role: 'combobox',
+    autocomplete: 'off',
+    'aria-autocomplete': 'list' as const,
+    'aria-expanded': open.value,
+    'aria-controls': listboxId,
+    'aria-activedescendant':
+      open.value && activeIndex.value >= 0
+        ? optionId(activeIndex.value)
+        : undefined,
+    onKeydown,
+    onInput: show,
+    onBlur: close,
+  }))
+
+  /**
+   * Props for the listbox element.
+   */
+  const listboxProps = computed(() => ({
+    id: listboxId,
+    role: 'listbox',
+    'aria-labelledby': options?.labelId,
+    'aria-multiselectable': multiple || undefined,
+  }))
+
+  /**
+   * Returns the props for the option of the item at the index of the result.
+   */
+  function optionProps(index: number) {
+    const item = result.value[index]
+
+    return {
+      id: optionId(index),
+      role: 'option',
+      'aria-selected': item !== undefined && isSelected(item),
+      'data-active': index === activeIndex.value || undefined,
+      // Prevents the input from losing focus, which would close the listbox.
+      onMousedown: (event: MouseEvent) => event.preventDefault(),
+      onMousemove: () => {
+        activeIndex.value = index
+      },
+      onClick: () => item !== undefined && select(item),
+    }
+  }
+
+  return {
+    open,
+    activeIndex,
+    activeItem,
+    selected,
+    isSelected,
+    select,
+    deselect,
+    clear,
+    activate,
+    show,
+    close,
+    inputProps,
+    listboxProps,
+    optionProps,
+  }
+}
@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest'
+import { useSearch } from '../useSearch'
+import { useFacets } from './index'
+
+const tickets = [
+  { title: 'Login fails', status: 'open', tags: ['auth', 'bug'], priority: 1 },
+  { title: 'Add dark mode', status: 'open', tags: ['ui'], priority: 3 },
+  {
+    title: 'Logout button',
+    status: 'closed',
+    tags: ['auth', 'ui'],
+    priority: 2,
+  },
+  { title: 'Crash on save', status: 'open', tags: ['bug'], priority: 1 },
+  { title: 'Slow login', status: 'closed', tags: ['auth'], priority: 2 },
+]
+
+describe('useFacets', () => {
+  it('counts the values of each facet', () => {
+    const { result, facets } = useFacets(tickets, {
+      status: { value: 'status' },
+      tags: { value: 'tags' },
+    })
+
+    expect(result.value).toEqual(tickets)
+    expect(facets.value.status).toEqual([
+      { value: 'open', count: 3, selected: false },
+      { value: 'closed', count: 2, selected: false },
+    ])
+    expect(facets.value.tags).toEqual([
+      { value: 'auth', count: 3, selected: false },
+      { value: 'bug', count: 2, selected: false },
+      { value: 'ui', count: 2, selected: false },
+    ])
+  })
+
+  it('extracts values using a function', () => {
+    const { facets } = useFacets(tickets, {
+      urgent: { value: (ticket) => ticket.priority === 1 },
+    })
+
+    expect(facets.value.urgent).toEqual([
+      { value: false, count: 3, selected: false },
+      { value: true, count: 2, selected: false },
+    ])
+  })
+
+  it('filters by the selected values', () => {
+    const { result, toggle } = useFacets(tickets, {
+      status: { value: 'status' },
+      tags: { value: 'tags' },
+    })
+
+    toggle('status', 'open')
+    expect(result.value).toEqual([tickets[0], tickets[1], tickets[3]])
+
+    toggle('tags', 'bug')
+    expect(result.value).toEqual([tickets[0], tickets[3]])
+
+    toggle('status', 'open')
+    expect(result.value).toEqual([tickets[0], tickets[3]])
+  })
+
+  it('combines multiple values with OR by default', () => {
+    const { result, select, facets } = useFacets(tickets, {
+      tags: { value: 'tags' },
+    })
+
+    select('tags', 'bug')
+    select('tags', 'ui')
+
+    expect(result.value).toEqual([
+      tickets[0],
+      tickets[1],
+      tickets[2],
+      tickets[3],
+    ])
+    // Counts ignore the selection of the facet itself, so that they show how
+    // many items another selected value would add.
+    expect(facets.value.tags.find((o) => o.value === 'auth')?.count).toBe(3)
+  })
+
+  it('combines multiple values with AND', () => {
+    const { result, select, facets } = useFacets(tickets, {
+      tags: { value: 'tags', operator: 'and' },
+    })
+
+    select('tags', 'auth')
+    expect(facets.value.tags).toEqual([
+      { value: 'auth', count: 3, selected: true },
+      { value: 'bug', count: 1, selected: false },
+      { value: 'ui', count: 1, selected: false },
+    ])
+
+    select('tags', 'ui')
+    expect(result.value).toEqual([tickets[2]])
+  })
+
+  it('replaces the selected value of single-select facets', () => {
+    const { result, select, selected } = useFacets(tickets, {
+      status: { value: 'status', multiple: false },
+    })
+
+    select('status', 'open')
+    select('status', 'closed')
+
+    expect(selected.value.status).toEqual(['closed'])
+    expect(result.value).toEqual([tickets[2], tickets[4]])
+  })
+
+  it('keeps selected values without items', () => {
+    const { facets } = useFacets(
+      tickets,
+      { status: { value: 'status' } },
+      {
+        selected: { status: ['archived'] },
+      },
+    )
+
+    expect(facets.value.status).toContainEqual({
+      value: 'archived',
+      count: 0,
+      selected: true,
+    })
+  })
+
+  it('sorts the options', () => {
+    const { facets } = useFacets(tickets, {
+      byValue: { value: 'priority', sort: 'value' },
+      custom: { value: 'priority', sort: (a, b) => +b.value - +a.value },
+    })
+
+    expect(facets.value.byValue.map((o) => o.value)).toEqual([1, 2, 3])
+    expect(facets.value.custom.map((o) => o.value)).toEqual([3, 2, 1])
+  })
+
+  it('clears the selection', () => {
+    const { result, select, clear, selected } = useFacets(tickets, {
+      status: { value: 'status' },
+      tags: { value: 'tags' },
+    })
+
+    select('status', 'open')
+    select('tags', 'ui')
+
+    clear('tags')
+    expect(selected.value).toEqual({ status: ['open'], tags: [] })
+
+    clear()
+    expect(result.value).toEqual(tickets)
+  })
+
+  it('reflects the search input in the counts', () => {
+    const search = useSearch(tickets, ['title'])
+    const { result, facets, toggle } = useFacets(search.result, {
+      status: { value: 'status' },
+    })
+
+    search.input.value = 'log'
+    expect(facets.value.status).toEqual([
+      { value: 'closed', count: 2, selected: false },
+      { value: 'open', count: 1, selected: false },
+    ])
+
+    toggle('status', 'closed')
+    expect(result.value).toEqual([tickets[2], tickets[4]])
+  })
+
+  it('only allows fields with facet values', () => {
+    const items = [{ name: 'a', meta: { kind: 'x' }, created: new Date() }]
+
+    useFacets(items, { kind: { value: 'meta.kind' } })
+
+    // @ts-expect-error objects are not facet values
+    useFacets(items, { meta: { value: 'meta' } })
+
+    // @ts-expect-error dates are not facet values
+    useFacets(items, { created: { value: 'created' } })
+  })
+})
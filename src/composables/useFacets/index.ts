@@ -0,0 +1,293 @@
+import { type Ref, computed, ref } from 'vue'
+import { type MaybeRefOrGetter, toValue } from '@vueuse/core'
+import type { MaybeArray, StringOf } from '../../shared'
+import { type LeafPath, getPathValues, parsePath } from '../useSearch/paths'
+
+/**
+ * A value of a facet, e.g. a category or status.
+ */
+export type FacetValue = string | number | boolean
+
+/**
+ * A field of {@link T} that contains the value(s) of a facet. Can be a
+ * dot-path like the fields of `useSearch`.
+ */
+export type FacetField<T> = StringOf<LeafPath<T, FacetValue>>
+
+/**
+ * Defines how the values of a facet are extracted and selected.
+ */
+export interface FacetDefinition<T> {
+  /**
+   * Field or function that returns the value(s) of an item.
+   */
+  value:
+    FacetField<T> | ((item: T) => MaybeArray<FacetValue> | null | undefined)
+
+  /**
+   * Allows selecting multiple values. Selecting a value of a single-select
+   * facet replaces the selected value.
+   *
+   * @default true
+   */
+  multiple?: boolean
+
+  /**
+   * How multiple selected values are combined:
+   * - `or`: items must have one of the selected values.
+   * - `and`: items must have all of the selected values.
+   *
+   * @default 'or'
+   */
+  operator?: 'or' | 'and'
+
+  /**
+   * Order of the options of the facet. `count` sorts by count (highest first)
+   * and then by value, `value` sorts by value.
+   *
+   * @default 'count'
+   */
+  sort?: 'count' | 'value' | ((a: FacetOption, b: FacetOption) => number)
+}
+
+/**
+ * A value of a facet, along with the number of items that have it.
+ */
+export interface FacetOption {
+  value: FacetValue
+
+  /**
+   * Number of items that have the value, considering the selected values of
+   * all other facets. For facets with the `and` operator, the selected values
+   * of the facet itself are also considered.
+   */
+  count: number
+
+  selected: boolean
+}
+
+/**
+ * Defines configuration options for the `useFacets` composable.
+ */
+export interface UseFacetsOptions<K extends string> {
+  /**
+   * Initially selected values per facet.
+   */
+  selected?: Partial<Record<K, FacetValue[]>>
+}
+
+/**
+ * Filters a list of items by the selected values of facets, and counts the
+ * items per facet value.
+ *
+ * To combine facets with a text search, pass the `result` of `useSearch` as
+ * the list, so that the counts reflect the search input. Alternatively, pass
+ * the `result` of `useFacets` to `useSearch` to search within the selected
+ * facets.
+ *
+ * @example
+ * ```ts
+ * const search = useSearch(tickets, ['title'])
+ * const { result, facets, toggle } = useFacets(search.result, {
+ *   status: { value: 'status', multiple: false },
+ *   tags: { value: 'tags[].name', operator: 'and' },
+ * })
+ *
+ * // facets.value.status = [{ value: 'open', count: 12, selected: false }, ...]
+ * toggle('status', 'open')
+ * ```
+ */
+export function useFacets<T, K extends string>(
+  list: MaybeRefOrGetter<readonly T[]>,
+  definitions: Record<K, FacetDefinition<T>>,
+  options?: UseFacetsOptions<K>,
+) {
+  const names = Object.keys(definitions) as K[]
+
+  const extractors = Object.fromEntries(
+    names.map((name) => {
+      const { value } = definitions[name]
+      if (typeof value === 'function') {
+        return [name, (item: T) => forceValues(value(item))]
+      }
+
+      const path = parsePath(value)
+      return [name, (item: T) => getPathValues(item, path) as FacetValue[]]
+    }),
+  ) as Record<K, (item: T) => FacetValue[]>
+
+  /**
+   * Selected values per facet.
+   */
+  const selected = ref(
+    Object.fromEntries(
+      names.map((name) => [name, [...(options?.selected?.[name] ?? [])]]),
+    ),
+  ) as Ref<Record<K, FacetValue[]>>
+
+  /**
+   * Facet values of each item. Only recomputed when the list changes.
+   */
+  const entries = computed(() =>
+    toValue(list).map((item) => ({
+      item,
+      values: Object.fromEntries(
+        names.map((name) => [name, extractors[name](item)]),
+      ) as Record<K, FacetValue[]>,
+    })),
+  )
+
+  function isMulti(name: K) {
+    return definitions[name].multiple !== false
+  }
+
+  function matchesFacet(values: FacetValue[], name: K) {
+    const selectedValues = selected.value[name]
+    if (!selectedValues.length) {
+      return true
+    }
+
+    return isMulti(name) && definitions[name].operator === 'and'
+      ? selectedValues.every((value) => values.includes(value))
+      : selectedValues.some((value) => values.includes(value))
+  }
+
+  /**
+   * Items that match the selected values of all facets.
+   */
+  const result = computed(() =>
+    entries.value
+      .filter(({ values }) =>
+        names.every((name) => matchesFacet(values[name], name)),
+      )
+      .map(({ item }) => item),
+  )
+
+  /**
+   * Options of each facet. Contains all values of the list, and the selected
+   * values even if no item has them.
+   */
+  const facets = computed(
+    () =>
+      Object.fromEntries(
+        names.map((name) => [name, facetOptions(name)]),
+      ) as Record<K, FacetOption[]>,
+  )
+
+  function facetOptions(name: K) {
+    const definition = definitions[name]
+
+    // Selecting another value of an `or` facet widens the result, so its
+    // counts ignore its own selection.
+    const ignoreOwn = !isMulti(name) || definition.operator !== 'and'
+
+    const counts = new Map<FacetValue, number>()
+    for (const value of selected.value[name]) {
+      counts.set(value, 0)
+    }
+
+    for (const { values } of entries.value) {
+      for (const value of values[name]) {
+        if (!counts.has(value)) {
+          counts.set(value, 0)
+        }
+      }
+
+      const included = names.every(
+        (other) =>
+          (other === name && ignoreOwn) || matchesFacet(values[other], other),
+      )
+      if (included) {
+        for (const value of new Set(values[name])) {
+          counts.set(value, counts.get(value)! + 1)
+        }
+      }
+    }
+
+    const facetOptions = [...counts].map(([value, count]): FacetOption => ({
+      value,
+      count,
+      selected: selected.value[name].includes(value),
+    }))
+
+    const sort = definition.sort ?? 'count'
+    return facetOptions.sort(
+      typeof sort === 'function'
+        ? sort
+        : (a, b) =>
+            (sort === 'count' ? b.count - a.count : 0) ||
+            compareValues(a.value, b.value),
+    )
+  }
+
+  /**
+   * Checks whether the value of the facet is selected.
+   */
+  function isSelected(name: K, value: FacetValue) {
+    return selected.value[name].includes(value)
+  }
+
+  /**
+   * Selects the value of the facet. Replaces the selected value of
+   * single-select facets.
+   */
+  function select(name: K, value: FacetValue) {
+    if (!isMulti(name)) {
+      selected.value[name] = [value]
+    } else if (!isSelected(name, value)) {
+      selected.value[name] = [...selected.value[name], value]
+    }
+  }
+
+  /**
+   * Deselects the value of the facet.
+   */
+  function deselect(name: K, value: FacetValue) {
+    selected.value[name] = selected.value[name].filter((v) => v !== value)
+  }
+
+  /**
+   * Selects the value of the facet if it isn't selected, and deselects it
+   * otherwise.
+   */
+  function toggle(name: K, value: FacetValue) {
+    if (isSelected(name, value)) {
+      deselect(name, value)
+    } else {
+      select(name, value)
+    }
+  }
+
+  /**
+   * Deselects all values of the given facet, or of all facets.
+   */
+  function clear(name?: K) {
+    for (const facet of name ? [name] : names) {
+      selected.value[facet] = []
+    }
+  }
+
+  return {
+    result,
+    facets,
+    selected,
+    isSelected,
+    select,
+    deselect,
+    toggle,
+    clear,
+  }
+}
+
+function forceValues(values: MaybeArray<FacetValue> | null | undefined) {
+  if (values === null || values === undefined) {
+    return []
+  }
+  return Array.isArray(values) ? values : [values]
+}
+
+function compareValues(a: FacetValue, b: FacetValue) {
+  return typeof a === 'number' && typeof b === 'number'
+    ? a - b
+    : String(a).localeCompare(String(b))
+}
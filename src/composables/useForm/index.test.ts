@@ -0,0 +1,286 @@
+import { describe, expect, it, vi } from 'vitest'
+import { nextTick } from 'vue'
+import { delay } from '../../test/delay'
+import { createUseForm, useForm } from './index'
+
+describe('useForm', () => {
+  const initial = { email: '', password: '' }
+
+  it('provides the field values', () => {
+    const { values, fields } = useForm(initial, () => {})
+
+    expect(values).toEqual(initial)
+
+    fields.email.value = 'bob@example.com'
+    expect(values.email).toBe('bob@example.com')
+
+    values.password = 'secret'
+    expect(fields.password.value).toBe('secret')
+  })
+
+  it('tracks dirty fields', () => {
+    const { fields, dirty } = useForm(initial, () => {})
+
+    expect(dirty.value).toBe(false)
+
+    fields.email.value = 'bob@example.com'
+    expect(fields.email.dirty).toBe(true)
+    expect(fields.password.dirty).toBe(false)
+    expect(dirty.value).toBe(true)
+
+    fields.email.value = ''
+    expect(dirty.value).toBe(false)
+  })
+
+  it('keeps class instances as they are', () => {
+    class Money {
+      constructor(public amount: number) {}
+    }
+
+    const price = new Money(5)
+    const { values, fields } = useForm({ price }, () => {})
+
+    expect(values.price).toBeInstanceOf(Money)
+    expect(fields.price.dirty).toBe(false)
+
+    values.price = new Money(5)
+    expect(fields.price.dirty).toBe(true)
+  })
+
+  it('tracks touched fields', () => {
+    const { fields, touched } = useForm(initial, () => {})
+
+    expect(touched.value).toBe(false)
+
+    fields.email.touch()
+    expect(fields.email.touched).toBe(true)
+    expect(fields.password.touched).toBe(false)
+    expect(touched.value).toBe(true)
+  })
+
+  it('validates touched fields', async () => {
+    const { fields, errors, valid } = useForm(initial, () => {}, {
+      validators: {
+        email: (value) => (value.includes('@') ? null : 'invalid email'),
+      },
+    })
+
+    fields.email.value = 'bob'
+    await nextTick()
+    expect(fields.email.error).toBeNull()
+
+    fields.email.touch()
+    await delay(0)
+    expect(fields.email.error).toBe('invalid email')
+    expect(errors.value).toEqual({ email: 'invalid email' })
+    expect(valid.value).toBe(false)
+
+    fields.email.value = 'bob@example.com'
+    await delay(0)
+    expect(fields.email.error).toBeNull()
+    expect(valid.value).toBe(true)
+  })
+
+  it('supports async validators', async () => {
+    const { fields } = useForm(initial, () => {}, {
+      validateOn: 'change',
+      validators: {
+        email: async (value) => {
+          await delay(10)
+          return value === 'taken@example.com' ? 'already taken' : null
+        },
+      },
+    })
+
+    fields.email.value = 'taken@example.com'
+    await nextTick()
+    expect(fields.email.validating).toBe(true)
+
+    await delay(20)
+    expect(fields.email.validating).toBe(false)
+    expect(fields.email.error).toBe('already taken')
+  })
+
+  it('ignores results of outdated validations', async () => {
+    const { fields } = useForm({ name: '' }, () => {}, {
+      validateOn: 'change',
+      validators: {
+        name: async (value) => {
+          await delay(value === 'slow' ? 20 : 5)
+          return `error: ${value}`
+        },
+      },
+    })
+
+    fields.name.value = 'slow'
+    await nextTick()
+    fields.name.value = 'fast'
+    await delay(30)
+
+    expect(fields.name.error).toBe('error: fast')
+  })
+
+  it('reports the first error of multiple validators', async () => {
+    const { fields, validate } = useForm({ name: '' }, () => {}, {
+      validators: {
+        name: [
+          (value) => (value ? null : 'required'),
+          (value) => (value.length > 2 ? null : 'too short'),
+        ],
+      },
+    })
+
+    expect(await validate()).toBe(false)
+    expect(fields.name.error).toBe('required')
+
+    fields.name.value = 'ab'
+    expect(await validate()).toBe(false)
+    expect(fields.name.error).toBe('too short')
+  })
+
+  it('only submits valid forms', async () => {
+    const submitFn = vi.fn((values: typeof initial) => values.email)
+    const { fields, submit } = useForm(initial, submitFn, {
+      validators: { email: (value) => (value ? null : 'required') },
+    })
+
+    expect(await submit()).toBeNull()
+    expect(submitFn).not.toHaveBeenCalled()
+    expect(fields.email.error).toBe('required')
+    expect(fields.email.touched).toBe(true)
+
+    fields.email.value = 'bob@example.com'
+    expect(await submit()).toBe('bob@example.com')
+    expect(submitFn).toHaveBeenCalledWith(
+      { email: 'bob@example.com', password: '' },
+      expect.anything(),
+    )
+  })
+
+  it('is pending while submitting', async () => {
+    const { submit, pending } = useForm(initial, () => delay(10))
+
+    const p = submit()
+    await delay(0)
+    expect(pending.value).toBe(true)
+
+    await p
+    expect(pending.value).toBe(false)
+  })
+
+  it('sets the global error if submitting fails', async () => {
+    const { submit, error } = useForm(initial, () => {
+      throw new Error('foo')
+    })
+
+    expect(await submit()).toBeNull()
+    expect(error.value).toBe('foo')
+  })
+
+  it('assigns field errors returned from parseError', async () => {
+    const { fields, submit, error, errors } = useForm(
+      initial,
+      () => {
+        throw new Error('validation failed')
+      },
+      {
+        parseError: (err) => ({
+          fields: { email: 'already registered' },
+          error: err.message,
+        }),
+      },
+    )
+
+    await submit()
+
+    expect(fields.email.error).toBe('already registered')
+    expect(errors.value).toEqual({ email: 'already registered' })
+    expect(error.value).toBe('validation failed')
+
+    fields.email.value = 'other@example.com'
+    await nextTick()
+    expect(fields.email.error).toBeNull()
+  })
+
+  it(`uses the 'parseError' option of createUseForm`, async () => {
+    const useForm = createUseForm({
+      parseError: (err) => `parsed: ${err.message}`,
+    })
+
+    const { submit, error } = useForm(initial, () => {
+      throw new Error('foo')
+    })
+
+    await submit()
+
+    expect(error.value).toBe('parsed: foo')
+  })
+
+  it('resets the form', async () => {
+    const { fields, values, reset, submit, dirty } = useForm(
+      initial,
+      () => {},
+      {
+        validators: { email: (value) => (value ? null : 'required') },
+      },
+    )
+
+    fields.password.value = 'secret'
+    await submit()
+    expect(fields.email.error).toBe('required')
+
+    reset()
+    expect(values).toEqual(initial)
+    expect(fields.email.error).toBeNull()
+    expect(fields.email.touched).toBe(false)
+    expect(dirty.value).toBe(false)
+
+    reset({ email: 'bob@example.com', password: '' })
+    expect(values.email).toBe('bob@example.com')
+    expect(dirty.value).toBe(false)
+  })
+
+  it('does not validate the values restored by reset', async () => {
+    const { fields, errors, reset } = useForm(initial, () => {}, {
+      validateOn: 'change',
+      validators: { email: (value) => (value ? null : 'required') },
+    })
+
+    fields.email.value = 'bob@example.com'
+    await nextTick()
+    reset()
+    await nextTick()
+    expect(errors.value).toEqual({})
+
+    fields.email.value = 'bob@example.com'
+    await nextTick()
+    fields.email.value = ''
+    await nextTick()
+    expect(errors.value).toEqual({ email: 'required' })
+  })
+
+  it('passes the parsed error to the hooks of the action', async () => {
+    const onError = vi.fn()
+    const useForm = createUseForm({ onError })
+
+    const { submit, error } = useForm(
+      initial,
+      () => {
+        throw new Error('validation failed')
+      },
+      {
+        parseError: (err) => ({
+          fields: { email: 'already registered' },
+          error: `parsed: ${err.message}`,
+        }),
+      },
+    )
+
+    await submit()
+
+    expect(error.value).toBe('parsed: validation failed')
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ error: 'parsed: validation failed' }),
+    )
+  })
+})
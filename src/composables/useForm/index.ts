@@ -0,0 +1,453 @@
+import {
+  type ComputedRef,
+  type Ref,
+  computed,
+  reactive,
+  ref,
+  toRaw,
+  watch,
+} from 'vue'
+import { type MaybeArray, forceArray, isPlainObject } from '../../shared'
+import { useVueUIConfig } from '../../plugin'
+import {
+  type ActionContext,
+  type UseActionBaseOptions,
+  createUseAction,
+} from '../useAction'
+
+/**
+ * Validates the value of a field. Returns an error message if the value is
+ * invalid, or nothing if it is valid. Validators may be asynchronous.
+ */
+export type FieldValidator<T, TValues> = (
+  value: T,
+  values: TValues,
+) => ValidationResult | Promise<ValidationResult>
+
+type ValidationResult = string | null | undefined | void
+
+/**
+ * Error messages per field.
+ */
+export type FieldErrors<TValues> = { [K in keyof TValues]?: string }
+
+/**
+ * Can be returned from `parseError` to assign errors to individual fields.
+ * Errors that don't belong to a field can be provided as `error`.
+ */
+export interface FormErrorResult<TValues, TError> {
+  fields: FieldErrors<TValues>
+  error?: TError
+}
+
+/**
+ * State of a single form field.
+ */
+export interface FormField<T> {
+  /**
+   * Current value of the field. Can be bound using `v-model`.
+   */
+  value: T
+
+  /**
+   * Validation error, or the error returned by the server for this field.
+   */
+  error: string | null
+
+  /**
+   * Whether the value differs from the initial value.
+   */
+  dirty: boolean
+
+  /**
+   * Whether the field has been touched (blurred) by the user.
+   */
+  touched: boolean
+
+  /**
+   * Whether an asynchronous validator of the field is running.
+   */
+  validating: boolean
+
+  /**
+   * Marks the field as touched. Bind to the `blur` event of the input.
+   */
+  touch: () => void
+
+  /**
+   * Runs the validators of the field and returns whether it is valid.
+   */
+  validate: () => Promise<boolean>
+}
+
+/**
+ * Defines configuration options for the `useForm` composable.
+ */
+export interface UseFormOptions<
+  TValues extends Record<string, unknown>,
+  TError extends Error | string = string,
+> {
+  /**
+   * Validators per field. If multiple validators are given for a field, the
+   * first error is reported.
+   */
+  validators?: {
+    [K in keyof TValues]?: MaybeArray<FieldValidator<TValues[K], TValues>>
+  }
+
+  /**
+   * When fields are validated before the form is submitted. With `blur`,
+   * fields are validated once touched and on every change after that. After
+   * the first submit, fields are always validated on change.
+   *
+   * @default 'blur'
+   */
+  validateOn?: 'change' | 'blur' | 'submit'
+
+  /**
+   * A function to parse errors thrown by the submit function. Return a
+   * {@link FormErrorResult} to assign errors to individual fields. Overrides
+   * the `parseError` option of {@link createUseForm}.
+   */
+  parseError?: (error: Error) => TError | FormErrorResult<TValues, TError>
+}
+
+/**
+ * `createUseForm` creates a `useForm` composable that submits forms through a
+ * `useAction` function created with the same base options.
+ */
+export function createUseForm<TErrorGlobal extends Error | string = string>(
+  baseOptions?: UseActionBaseOptions<TErrorGlobal>,
+) {
+  const useAction = createUseAction(baseOptions)
+
+  return function useForm<
+    TValues extends Record<string, unknown>,
+    TResult,
+    TError extends Error | string = TErrorGlobal,
+  >(
+    initial: TValues,
+    submitFn: (
+      values: TValues,
+      ctx: ActionContext,
+    ) => TResult | Promise<TResult>,
+    options?: UseFormOptions<TValues, TError>,
+  ) {
+    type Key = keyof TValues & string
+
+    const keys = Object.keys(initial) as Key[]
+    const validateOn = options?.validateOn ?? 'blur'
+    const parseError = (options?.parseError ??
+      baseOptions?.parseError ??
+      useVueUIConfig().action?.parseError ??
+      ((err: Error) => err.message)) as (
+      error: Error,
+    ) => TError | FormErrorResult<TValues, TError>
+
+    const initialValues = ref(clone(initial)) as Ref<TValues>
+    const values = reactive(clone(initial)) as TValues
+
+    const touched = ref<Partial<Record<Key, boolean>>>({})
+    const validationErrors = ref<Partial<Record<Key, string>>>({})
+    const serverErrors = ref<FieldErrors<TValues>>({})
+    const validating = ref<Partial<Record<Key, number>>>({})
+    const submitted = ref(false)
+    const error: Ref<TError | null> = ref(null)
+
+    const validationRuns: Partial<Record<Key, number>> = {}
+
+    /**
+     * Fields whose value was changed by `reset`, so that the change does not
+     * trigger validation.
+     */
+    const resetFields = new Set<Key>()
+
+    const [run, { pending }] = useAction(
+      (values: TValues, ctx: ActionContext) => submitFn(values, ctx),
+      {
+        context: true,
+        concurrency: 'exclusive',
+        parseError: applyError,
+        onError: ({ error: parsed }) => {
+          error.value = parsed
+        },
+      },
+    )
+
+    /**
+     * Assigns the field errors returned by `parseError` to the fields, and
+     * returns the remaining error, so that the hooks of the action receive
+     * the same error as the `error` state of the form.
+     */
+    function applyError(err: Error) {
+      const parsed = parseError(err)
+
+      if (isFormErrorResult<TValues, TError>(parsed)) {
+        serverErrors.value = parsed.fields
+        return (parsed.error ?? null) as TError
+      }
+
+      return parsed
+    }
+
+    /**
+     * Runs the validators of the given field and returns whether it is valid.
+     */
+    async function validateField(name: Key) {
+      const validators = options?.validators?.[name]
+      if (!validators) {
+        return true
+      }
+
+      const id = (validationRuns[name] = (validationRuns[name] ?? 0) + 1)
+      validating.value[name] = (validating.value[name] ?? 0) + 1
+
+      let message: string | null = null
+      try {
+        for (const validator of forceArray(validators)) {
+          const result = await validator(values[name], values)
+          if (result) {
+            message = result
+            break
+          }
+        }
+      } finally {
+        validating.value[name] = validating.value[name]! - 1
+      }
+
+      if (validationRuns[name] === id) {
+        validationErrors.value[name] = message ?? undefined
+      }
+
+      return !message
+    }
+
+    /**
+     * Runs the validators of all fields and returns whether the form is valid.
+     */
+    async function validate() {
+      const results = await Promise.all(keys.map(validateField))
+      return results.every(Boolean)
+    }
+
+    function shouldValidate(name: Key) {
+      return (
+        submitted.value ||
+        validateOn === 'change' ||
+        (validateOn === 'blur' && !!touched.value[name])
+      )
+    }
+
+    function touch(name: Key) {
+      if (touched.value[name]) {
+        return
+      }
+
+      touched.value[name] = true
+      if (validateOn === 'blur') {
+        validateField(name)
+      }
+    }
+
+    function fieldError(name: Key) {
+      return validationErrors.value[name] ?? serverErrors.value[name] ?? null
+    }
+
+    for (const name of keys) {
+      watch(
+        () => values[name],
+        () => {
+          if (
+            resetFields.delete(name) &&
+            isEqual(values[name], initialValues.value[name])
+          ) {
+            return
+          }
+
+          delete serverErrors.value[name]
+          if (shouldValidate(name)) {
+            validateField(name)
+          }
+        },
+        { deep: true },
+      )
+    }
+
+    const fields = Object.fromEntries(
+      keys.map((name) => [
+        name,
+        reactive({
+          value: computed({
+            get: () => values[name],
+            set: (value) => {
+              values[name] = value
+            },
+          }),
+          error: computed(() => fieldError(name)),
+          dirty: computed(
+            () => !isEqual(values[name], initialValues.value[name]),
+          ),
+          touched: computed(() => !!touched.value[name]),
+          validating: computed(() => !!validating.value[name]),
+          touch: () => touch(name),
+          validate: () => validateField(name),
+        }),
+      ]),
+    ) as unknown as { [K in Key]: FormField<TValues[K]> }
+
+    const errors = computed(() => {
+      const errors: FieldErrors<TValues> = {}
+      for (const name of keys) {
+        const message = fieldError(name)
+        if (message) {
+          errors[name] = message
+        }
+      }
+      return errors
+    })
+
+    /**
+     * Validates the form and, if it is valid, calls the submit function with
+     * a copy of the current values. Returns the result of the submit
+     * function, or `null` if the form is invalid or submitting failed.
+     */
+    async function submit(): Promise<TResult | null> {
+      submitted.value = true
+      keys.forEach((name) => {
+        touched.value[name] = true
+      })
+      error.value = null
+      serverErrors.value = {}
+
+      if (!(await validate())) {
+        return null
+      }
+
+      return (await run(clone(toRaw(values)) as TValues)) as TResult | null
+    }
+
+    /**
+     * Resets the form to its initial values, or to the given values, and
+     * clears all errors.
+     */
+    function reset(next?: TValues) {
+      if (next) {
+        initialValues.value = clone(next)
+      }
+
+      for (const name of keys) {
+        if (!isEqual(values[name], initialValues.value[name])) {
+          resetFields.add(name)
+        }
+      }
+      Object.assign(values, clone(initialValues.value))
+      touched.value = {}
+      validationErrors.value = {}
+      serverErrors.value = {}
+      submitted.value = false
+      error.value = null
+      for (const name of keys) {
+        validationRuns[name] = (validationRuns[name] ?? 0) + 1
+      }
+    }
+
+    /**
+     * Sets errors for individual fields, e.g. from a response that didn't
+     * throw.
+     */
+    function setFieldErrors(fieldErrors: FieldErrors<TValues>) {
+      serverErrors.value = { ...fieldErrors }
+    }
+
+    return {
+      values,
+      fields,
+      errors: errors as ComputedRef<FieldErrors<TValues>>,
+      error,
+      pending,
+      dirty: computed(() => keys.some((name) => fields[name].dirty)),
+      touched: computed(() => keys.some((name) => fields[name].touched)),
+      validating: computed(() => keys.some((name) => fields[name].validating)),
+      valid: computed(() => Object.keys(errors.value).length === 0),
+      submitted: computed(() => submitted.value),
+      submit,
+      validate,
+      reset,
+      setFieldErrors,
+    }
+  }
+}
+
+/**
+ * `useForm` manages the values of a form, tracks which fields are dirty or
+ * touched, validates fields using synchronous or asynchronous validators, and
+ * submits the form through `useAction` once it is valid.
+ *
+ * Errors thrown by the submit function are parsed using the `parseError`
+ * option. If it returns a {@link FormErrorResult}, the errors are assigned to
+ * the corresponding fields, and only the remaining error ends up in the
+ * global `error` state.
+ *
+ * @example
+ * ```ts
+ * const { fields, submit, error } = useForm(
+ *   { email: '', password: '' },
+ *   (values) => api.login(values),
+ *   {
+ *     validators: { email: (v) => (v.includes('@') ? null : 'Invalid email') },
+ *     parseError: (err) =>
+ *       isValidationError(err) ? { fields: err.fields } : err.message,
+ *   },
+ * )
+ * ```
+ */
+export const useForm = createUseForm()
+
+function isFormErrorResult<TValues, TError>(
+  value: unknown,
+): value is FormErrorResult<TValues, TError> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !(value instanceof Error) &&
+    'fields' in value
+  )
+}
+
+function clone<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(clone) as T
+  }
+
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([k, v]) => [k, clone(v)]),
+    ) as T
+  }
+
+  return value
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) {
+    return true
+  }
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => isEqual(v, b[i]))
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a)
+    return (
+      keys.length === Object.keys(b).length &&
+      keys.every((k) => isEqual(a[k], b[k]))
+    )
+  }
+
+  if (a instanceof Date && b instanceof Date) {
+    return a.getTime() === b.getTime()
+  }
+
+  return false
+}
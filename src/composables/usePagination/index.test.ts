@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest'
+import { nextTick, ref } from 'vue'
+import { useSearch } from '../useSearch'
+import { useSort } from '../useSort'
+import { usePagination } from './index'
+
+const numbers = Array.from({ length: 45 }, (_, i) => i + 1)
+
+describe('usePagination', () => {
+  it('returns the items of the first page', () => {
+    const { items, page, pageCount, total } = usePagination(numbers, {
+      pageSize: 10,
+    })
+
+    expect(items.value).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10])
+    expect(page.value).toBe(1)
+    expect(pageCount.value).toBe(5)
+    expect(total.value).toBe(45)
+  })
+
+  it('navigates between pages', () => {
+    const { items, page, next, prev, last, first, goTo } = usePagination(
+      numbers,
+      { pageSize: 10 },
+    )
+
+    next()
+    expect(page.value).toBe(2)
+    expect(items.value[0]).toBe(11)
+
+    last()
+    expect(items.value).toEqual([41, 42, 43, 44, 45])
+
+    prev()
+    expect(page.value).toBe(4)
+
+    first()
+    expect(page.value).toBe(1)
+
+    goTo(3)
+    expect(items.value[0]).toBe(21)
+
+    page.value = 2
+    expect(items.value[0]).toBe(11)
+  })
+
+  it('clamps out-of-range pages', () => {
+    const { page, goTo, prev } = usePagination(numbers, { pageSize: 10 })
+
+    goTo(10)
+    expect(page.value).toBe(5)
+
+    goTo(0)
+    prev()
+    expect(page.value).toBe(1)
+  })
+
+  it('exposes boundary flags', () => {
+    const { isFirst, isLast, hasPrev, hasNext, next, last } = usePagination(
+      numbers,
+      { pageSize: 20 },
+    )
+
+    expect([isFirst.value, isLast.value, hasPrev.value, hasNext.value]).toEqual(
+      [true, false, false, true],
+    )
+
+    next()
+    expect([isFirst.value, isLast.value]).toEqual([false, false])
+
+    last()
+    expect([isFirst.value, isLast.value, hasPrev.value, hasNext.value]).toEqual(
+      [false, true, true, false],
+    )
+  })
+
+  it('has a single page for an empty list', () => {
+    const { items, pageCount, isFirst, isLast } = usePagination([])
+
+    expect(items.value).toEqual([])
+    expect(pageCount.value).toBe(1)
+    expect(isFirst.value && isLast.value).toBe(true)
+  })
+
+  it('loads more pages', () => {
+    const { items, page, hasNext, loadMore, next } = usePagination(numbers, {
+      pageSize: 20,
+    })
+
+    loadMore()
+    expect(items.value).toEqual(numbers.slice(0, 40))
+    expect(page.value).toBe(2)
+
+    loadMore()
+    loadMore()
+    expect(items.value).toEqual(numbers)
+    expect(hasNext.value).toBe(false)
+
+    next()
+    expect(items.value).toEqual(numbers.slice(40))
+  })
+
+  it('resets the page when the search input changes', async () => {
+    const { input, result } = useSearch(
+      numbers.map((n) => String(n)),
+      (n) => n,
+    )
+    const { page, pageCount, next } = usePagination(result, { pageSize: 5 })
+
+    next()
+    next()
+    expect(page.value).toBe(3)
+
+    input.value = '1'
+    await nextTick()
+    expect(page.value).toBe(1)
+    expect(pageCount.value).toBe(3)
+  })
+
+  it('resets the page when the sort changes', async () => {
+    const { result, toggle } = useSort(numbers.map((value) => ({ value })))
+    const { page, items, next } = usePagination(result, { pageSize: 10 })
+
+    next()
+    toggle('value')
+    toggle('value')
+    await nextTick()
+
+    expect(page.value).toBe(1)
+    expect(items.value[0]).toEqual({ value: 45 })
+  })
+
+  it('resets the page when the page size changes', async () => {
+    const pageSize = ref(10)
+    const { page, pageCount, next } = usePagination(numbers, { pageSize })
+
+    next()
+    pageSize.value = 5
+    await nextTick()
+
+    expect(page.value).toBe(1)
+    expect(pageCount.value).toBe(9)
+  })
+
+  it('resets the page when the resetOn sources change', async () => {
+    const list = ref(numbers)
+    const filter = ref('')
+    const { page, next } = usePagination(list, {
+      pageSize: 10,
+      resetOn: filter,
+    })
+
+    next()
+    list.value = [...numbers, 46]
+    await nextTick()
+    expect(page.value).toBe(2)
+
+    filter.value = 'odd'
+    await nextTick()
+    expect(page.value).toBe(1)
+  })
+})
@@ -0,0 +1,153 @@
+import { type WatchSource, computed, ref, watch } from 'vue'
+import { type MaybeRefOrGetter, toRef, toValue } from '@vueuse/core'
+import { type MaybeArray, applyDefaults, forceArray } from '../../shared'
+import { useVueUIConfig } from '../../plugin'
+
+/**
+ * Defines configuration options for the `usePagination` composable.
+ */
+export interface UsePaginationOptions {
+  /**
+   * Number of items per page.
+   *
+   * @default 20
+   */
+  pageSize?: MaybeRefOrGetter<number>
+
+  /**
+   * Initial page, starting at `1`.
+   *
+   * @default 1
+   */
+  page?: number
+
+  /**
+   * Sources that reset the pagination to the first page when they change.
+   * Defaults to the list, so that a new search input or sort order, which
+   * produce a new `result` array, start at the first page.
+   */
+  resetOn?: MaybeArray<WatchSource>
+}
+
+/**
+ * Splits a list of items into pages. Pages can either be navigated one at a
+ * time, or loaded incrementally using `loadMore`, e.g. for infinite scrolling.
+ *
+ * @example
+ * ```ts
+ * const { result } = useSearch(people, ['name'])
+ * const { result: sorted } = useSort(result)
+ * const { items, page, pageCount, hasNext, next } = usePagination(sorted, {
+ *   pageSize: 25,
+ * })
+ * ```
+ */
+export function usePagination<T>(
+  list: MaybeRefOrGetter<readonly T[]>,
+  options?: UsePaginationOptions,
+) {
+  options = applyDefaults(options, useVueUIConfig().pagination)
+
+  const pageSize = toRef(options?.pageSize ?? 20)
+
+  /**
+   * First and last loaded page. Both are equal unless more pages were loaded
+   * using `loadMore`.
+   */
+  const firstLoaded = ref(options?.page ?? 1)
+  const lastLoaded = ref(options?.page ?? 1)
+
+  /**
+   * Total number of items.
+   */
+  const total = computed(() => toValue(list).length)
+
+  /**
+   * Number of pages. Is at least `1`, even if the list is empty.
+   */
+  const pageCount = computed(() =>
+    Math.max(1, Math.ceil(total.value / Math.max(1, pageSize.value))),
+  )
+
+  function clamp(page: number) {
+    return Math.min(Math.max(1, Math.floor(page)), pageCount.value)
+  }
+
+  /**
+   * Current page, starting at `1`. After `loadMore`, this is the last loaded
+   * page. Setting it navigates to the page.
+   */
+  const page = computed({
+    get: () => clamp(lastLoaded.value),
+    set: (value) => goTo(value),
+  })
+
+  /**
+   * Items of the current page, including the pages loaded using `loadMore`.
+   */
+  const items = computed(() =>
+    toValue(list).slice(
+      (clamp(firstLoaded.value) - 1) * pageSize.value,
+      page.value * pageSize.value,
+    ),
+  )
+
+  const isFirst = computed(() => page.value === 1)
+  const isLast = computed(() => page.value === pageCount.value)
+  const hasPrev = computed(() => !isFirst.value)
+  const hasNext = computed(() => !isLast.value)
+
+  /**
+   * Navigates to the page. Out-of-range pages are clamped.
+   */
+  function goTo(target: number) {
+    firstLoaded.value = lastLoaded.value = clamp(target)
+  }
+
+  function next() {
+    goTo(page.value + 1)
+  }
+
+  function prev() {
+    goTo(page.value - 1)
+  }
+
+  function first() {
+    goTo(1)
+  }
+
+  function last() {
+    goTo(pageCount.value)
+  }
+
+  /**
+   * Appends the next page to `items`.
+   */
+  function loadMore() {
+    lastLoaded.value = clamp(page.value + 1)
+  }
+
+  watch(
+    options?.resetOn ? forceArray(options.resetOn) : [() => toValue(list)],
+    first,
+  )
+  watch(pageSize, first)
+
+  return {
+    items,
+    page,
+    pageSize,
+    pageCount,
+    total,
+    isFirst,
+    isLast,
+    hasPrev,
+    hasNext,
+    goTo,
+    next,
+    prev,
+    first,
+    last,
+    loadMore,
+  }
+}
@@ -0,0 +1,235 @@
+import { describe, expect, it, vi } from 'vitest'
+import { effectScope, ref } from 'vue'
+import { delay } from '../../test/delay'
+import type { ActionContext } from '../useAction'
+import { type PollingAction, usePolling } from './index'
+
+/**
+ * Stand-in for a `document` whose visibility can be changed, along with a
+ * `window` that can go offline.
+ */
+function createEnvironment() {
+  const document = Object.assign(new EventTarget(), {
+    visibilityState: 'visible' as DocumentVisibilityState,
+  })
+  const window = Object.assign(new EventTarget(), {
+    navigator: { onLine: true },
+  })
+
+  function setVisibility(state: DocumentVisibilityState) {
+    document.visibilityState = state
+    document.dispatchEvent(new Event('visibilitychange'))
+  }
+
+  function setOnline(online: boolean) {
+    window.navigator.onLine = online
+    window.dispatchEvent(new Event(online ? 'online' : 'offline'))
+  }
+
+  return {
+    document: document as unknown as Document,
+    window: window as unknown as Window,
+    setVisibility,
+    setOnline,
+  }
+}
+
+/**
+ * Calls `usePolling` in an effect scope that can be stopped like an
+ * unmounting component.
+ */
+function poll<T>(...args: Parameters<typeof usePolling<T>>) {
+  const scope = effectScope()
+  const polling = scope.run(() => usePolling(...args))!
+  return { ...polling, stop: () => scope.stop() }
+}
+
+describe('usePolling', () => {
+  it('runs the action on an interval', async () => {
+    let count = 0
+    const action = vi.fn(async () => ++count)
+    const { lastResult, lastRunAt, stop } = poll(action, 20)
+
+    expect(action).toHaveBeenCalledTimes(0)
+    await delay(5)
+    expect(action).toHaveBeenCalledTimes(1)
+    expect(lastResult.value).toBe(1)
+    expect(lastRunAt.value).toBeLessThanOrEqual(Date.now())
+
+    await delay(25)
+    expect(action).toHaveBeenCalledTimes(2)
+    expect(lastResult.value).toBe(2)
+
+    stop()
+    await delay(30)
+    expect(action).toHaveBeenCalledTimes(2)
+  })
+
+  it('waits for the first interval if immediate is disabled', async () => {
+    const action = vi.fn(async () => 'done')
+    const { stop } = poll(action, 20, { immediate: false })
+
+    await delay(10)
+    expect(action).not.toHaveBeenCalled()
+    await delay(20)
+    expect(action).toHaveBeenCalledTimes(1)
+    stop()
+  })
+
+  it('never overlaps runs', async () => {
+    let running = 0
+    let overlapped = false
+    const action = vi.fn(async () => {
+      overlapped ||= running > 0
+      running++
+      await delay(20)
+      running--
+    })
+    const { refresh, stop } = poll(action, 5)
+
+    await delay(5)
+    expect(await refresh()).toBeNull()
+    await delay(50)
+    stop()
+
+    expect(overlapped).toBe(false)
+    expect(action.mock.calls.length).toBeLessThanOrEqual(3)
+  })
+
+  it('backs off after consecutive failures', async () => {
+    let fail = true
+    const action = vi.fn(async () => {
+      if (fail) {
+        throw new Error('unavailable')
+      }
+      return 'ok'
+    })
+    const { error, failures, stop } = poll(action, 10, {
+      backoff: { factor: 3, maxInterval: 1000 },
+    })
+
+    await delay(5)
+    expect(failures.value).toBe(1)
+    expect(error.value).toBe('unavailable')
+
+    await delay(20)
+    expect(action).toHaveBeenCalledTimes(1)
+    await delay(15)
+    expect(action).toHaveBeenCalledTimes(2)
+    expect(failures.value).toBe(2)
+
+    fail = false
+    await delay(40)
+    expect(action).toHaveBeenCalledTimes(2)
+    await delay(60)
+    expect(action.mock.calls.length).toBeGreaterThanOrEqual(3)
+    expect(failures.value).toBe(0)
+    expect(error.value).toBeNull()
+    stop()
+  })
+
+  it('pauses and resumes', async () => {
+    const action = vi.fn(async () => 'done')
+    const { paused, pause, resume, stop } = poll(action, 20)
+
+    await delay(5)
+    pause()
+    expect(paused.value).toBe(true)
+    await delay(30)
+    expect(action).toHaveBeenCalledTimes(1)
+
+    resume()
+    await delay(5)
+    expect(paused.value).toBe(false)
+    expect(action).toHaveBeenCalledTimes(2)
+    stop()
+  })
+
+  it('pauses while disabled', async () => {
+    const enabled = ref(false)
+    const action = vi.fn(async () => 'done')
+    const { paused, stop } = poll(action, 20, { enabled })
+
+    await delay(5)
+    expect(paused.value).toBe(true)
+    expect(action).not.toHaveBeenCalled()
+
+    enabled.value = true
+    await delay(5)
+    expect(action).toHaveBeenCalledTimes(1)
+    stop()
+  })
+
+  it('pauses while the document is hidden or offline', async () => {
+    const env = createEnvironment()
+    const action = vi.fn(async () => 'done')
+    const { paused, stop } = poll(action, 10, {
+      document: env.document,
+      window: env.window,
+    })
+
+    await delay(5)
+    env.setVisibility('hidden')
+    expect(paused.value).toBe(true)
+    await delay(20)
+    expect(action).toHaveBeenCalledTimes(1)
+
+    env.setVisibility('visible')
+    env.setOnline(false)
+    expect(paused.value).toBe(true)
+    await delay(20)
+    expect(action).toHaveBeenCalledTimes(1)
+
+    env.setOnline(true)
+    await delay(5)
+    expect(action).toHaveBeenCalledTimes(2)
+    stop()
+  })
+
+  it('keeps polling in the background if configured', async () => {
+    const env = createEnvironment()
+    env.setVisibility('hidden')
+    env.setOnline(false)
+
+    const action = vi.fn(async () => 'done')
+    const { paused, stop } = poll(action, 10, {
+      document: env.document,
+      window: env.window,
+      pauseWhenHidden: false,
+      pauseWhenOffline: false,
+    })
+
+    await delay(5)
+    expect(paused.value).toBe(false)
+    expect(action).toHaveBeenCalledTimes(1)
+    stop()
+  })
+
+  it('reschedules when the interval changes', async () => {
+    const interval = ref(1000)
+    const action = vi.fn(async () => 'done')
+    const { stop } = poll(action, interval)
+
+    await delay(5)
+    interval.value = 10
+    await delay(15)
+    expect(action).toHaveBeenCalledTimes(2)
+    stop()
+  })
+
+  it('aborts the pending run when stopped', async () => {
+    let signal: AbortSignal | undefined
+    const action: PollingAction<void> = async (ctx: ActionContext) => {
+      signal = ctx.signal
+      await delay(50)
+    }
+    const { pending, stop } = poll(action, 10)
+
+    await delay(5)
+    expect(pending.value).toBe(true)
+    stop()
+
+    expect(signal?.aborted).toBe(true)
+    expect(pending.value).toBe(false)
+  })
+})
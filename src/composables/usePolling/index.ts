@@ -0,0 +1,293 @@
+import { type Ref, computed, ref, shallowRef, watch } from 'vue'
+import {
+  type MaybeRefOrGetter,
+  toRef,
+  tryOnScopeDispose,
+  useDocumentVisibility,
+  useOnline,
+} from '@vueuse/core'
+import { applyDefaults } from '../../shared'
+import { useVueUIConfig } from '../../plugin'
+import {
+  type ActionContext,
+  type RetryOption,
+  type UseActionBaseOptions,
+  createUseAction,
+} from '../useAction'
+
+/**
+ * Action that is executed by `usePolling` on every tick.
+ */
+export type PollingAction<T> = (ctx: ActionContext) => T | Promise<T>
+
+/**
+ * Configures how the interval grows after consecutive failed runs.
+ */
+export interface PollingBackoffOptions {
+  /**
+   * Factor by which the interval is multiplied after each consecutive
+   * failure.
+   *
+   * @default 2
+   */
+  factor?: number
+
+  /**
+   * Upper bound for the interval in milliseconds.
+   *
+   * @default 300000
+   */
+  maxInterval?: number
+}
+
+/**
+ * Defines configuration options for the `usePolling` composable.
+ */
+export interface UsePollingOptions<TError extends Error | string = string> {
+  /**
+   * Whether to run the action as soon as polling starts. If `false`, the
+   * first run happens after the first interval.
+   *
+   * @default true
+   */
+  immediate?: boolean
+
+  /**
+   * Whether polling is enabled. Disabling polling behaves like `pause()`.
+   *
+   * @default true
+   */
+  enabled?: MaybeRefOrGetter<boolean>
+
+  /**
+   * Pauses polling while the document is hidden, e.g. in a background tab.
+   *
+   * @default true
+   */
+  pauseWhenHidden?: boolean
+
+  /**
+   * Pauses polling while the browser is offline.
+   *
+   * @default true
+   */
+  pauseWhenOffline?: boolean
+
+  /**
+   * Increases the interval after consecutive failed runs, until a run
+   * succeeds again. `false` keeps the interval.
+   *
+   * @default { factor: 2, maxInterval: 300000 }
+   */
+  backoff?: false | PollingBackoffOptions
+
+  /**
+   * A function to parse errors. Overrides the `parseError` option of
+   * {@link createUsePolling}.
+   */
+  parseError?: (error: Error) => TError
+
+  /**
+   * Retries failed runs within a tick. See the `retry` option of
+   * `useAction`.
+   */
+  retry?: RetryOption
+
+  /**
+   * Maximum duration of a run. See the `timeout` option of `useAction`.
+   */
+  timeout?: number
+
+  /**
+   * Document whose visibility pauses polling.
+   *
+   * @default globalThis.document
+   */
+  document?: Document
+
+  /**
+   * Window whose `online` and `offline` events pause polling.
+   *
+   * @default globalThis.window
+   */
+  window?: Window
+}
+
+/**
+ * `createUsePolling` creates a `usePolling` composable that shares its base
+ * configuration with {@link createUseAction}.
+ */
+export function createUsePolling<TErrorGlobal extends Error | string = string>(
+  baseOptions?: UseActionBaseOptions<TErrorGlobal>,
+) {
+  const useAction = createUseAction(baseOptions)
+
+  return function usePolling<T, TError extends Error | string = TErrorGlobal>(
+    action: PollingAction<T>,
+    interval: MaybeRefOrGetter<number>,
+    options?: UsePollingOptions<TError>,
+  ) {
+    options = applyDefaults(options, useVueUIConfig().polling)
+
+    const intervalRef = toRef(interval)
+    const enabled = toRef(options?.enabled ?? true)
+    const backoff =
+      options?.backoff === false
+        ? null
+        : { factor: 2, maxInterval: 5 * 60 * 1000, ...options?.backoff }
+
+    const visibility = useDocumentVisibility({ document: options?.document })
+    const online = useOnline({ window: options?.window })
+
+    const lastResult: Ref<T | null> = shallowRef(null)
+    const lastRunAt = ref<number | null>(null)
+    const failures = ref(0)
+    const manuallyPaused = ref(false)
+
+    const [run, { pending, error }] = useAction(
+      (ctx: ActionContext) => action(ctx),
+      {
+        context: true,
+        concurrency: 'exclusive',
+        parseError: options?.parseError as
+          ((error: Error) => TError) | undefined,
+        retry: options?.retry,
+        timeout: options?.timeout,
+        onSuccess: ({ result }) => {
+          lastResult.value = result as T
+          failures.value = 0
+        },
+        onError: () => {
+          failures.value++
+        },
+        onSettled: () => {
+          lastRunAt.value = Date.now()
+        },
+      },
+    )
+
+    /**
+     * Whether polling is paused, either through `pause()`, the `enabled`
+     * option, or because the document is hidden or the browser is offline.
+     */
+    const paused = computed(
+      () =>
+        manuallyPaused.value ||
+        !enabled.value ||
+        (options?.pauseWhenHidden !== false && visibility.value === 'hidden') ||
+        (options?.pauseWhenOffline !== false && !online.value),
+    )
+
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let disposed = false
+
+    /**
+     * Returns the number of milliseconds between two runs, including the
+     * backoff after consecutive failures.
+     */
+    function currentInterval() {
+      if (!backoff || failures.value === 0) {
+        return intervalRef.value
+      }
+
+      return Math.min(
+        intervalRef.value * backoff.factor ** failures.value,
+        Math.max(backoff.maxInterval, intervalRef.value),
+      )
+    }
+
+    function stop() {
+      clearTimeout(timer)
+      timer = undefined
+    }
+
+    /**
+     * Schedules the next run relative to the end of the last run, so that
+     * changes of the interval and resuming after a pause do not reset the
+     * timing.
+     */
+    function schedule() {
+      stop()
+      if (disposed || paused.value || pending.value) {
+        return
+      }
+
+      const elapsed =
+        lastRunAt.value === null
+          ? options?.immediate === false
+            ? 0
+            : Number.POSITIVE_INFINITY
+          : Date.now() - lastRunAt.value
+
+      timer = setTimeout(tick, Math.max(currentInterval() - elapsed, 0))
+    }
+
+    async function tick() {
+      timer = undefined
+      await run()
+      schedule()
+    }
+
+    /**
+     * Runs the action immediately and restarts the interval. Ignored while
+     * a run is pending.
+     */
+    async function refresh(): Promise<T | null> {
+      if (pending.value) {
+        return null
+      }
+
+      stop()
+      const result = (await run()) as T | null
+      schedule()
+      return result
+    }
+
+    function pause() {
+      manuallyPaused.value = true
+    }
+
+    function resume() {
+      manuallyPaused.value = false
+    }
+
+    watch([paused, intervalRef], schedule, { immediate: true })
+
+    tryOnScopeDispose(() => {
+      disposed = true
+      stop()
+    })
+
+    return {
+      lastResult,
+      lastRunAt: computed(() => lastRunAt.value),
+      pending,
+      error,
+      failures: computed(() => failures.value),
+      paused,
+      pause,
+      resume,
+      refresh,
+    }
+  }
+}
+
+/**
+ * `usePolling` runs an action on an interval, e.g. to keep a dashboard up to
+ * date. The interval can be reactive and is measured from the end of the
+ * previous run, so runs never overlap. After consecutive failures, the
+ * interval grows according to the `backoff` option. Polling pauses while the
+ * document is hidden or the browser is offline, and can be paused manually
+ * using `pause()` and `resume()`. When the owning component unmounts,
+ * polling stops and the pending run is cancelled. Pending and error states
+ * behave like the ones of `useAction`.
+ *
+ * @example
+ * ```ts
+ * const { lastResult, lastRunAt, error } = usePolling(
+ *   ({ signal }) => fetchStats({ signal }),
+ *   10_000,
+ * )
+ * ```
+ */
+export const usePolling = createUsePolling()
@@ -0,0 +1,172 @@
+import { type ShallowRef, shallowRef } from 'vue'
+import { isPlainObject } from '../../shared'
+
+/**
+ * Identifies a query. Keys are compared by value, so `['user', 1]` and
+ * `['user', 1]` refer to the same cache entry.
+ */
+export type QueryKey = string | readonly unknown[]
+
+/**
+ * Cached state of a query.
+ */
+export interface CacheEntry<T = unknown> {
+  data: ShallowRef<T | null>
+  updatedAt: number
+  observers: number
+  request?: SharedRequest<T>
+  listeners: Set<() => void>
+  gcTimeout?: ReturnType<typeof setTimeout>
+}
+
+interface SharedRequest<T> {
+  promise: Promise<T>
+  controller: AbortController
+  waiting: number
+}
+
+const cache = new Map<string, CacheEntry<any>>()
+
+/**
+ * Returns a stable string representation of a {@link QueryKey}.
+ */
+export function hashKey(key: QueryKey) {
+  return JSON.stringify(key, (_, value) =>
+    isPlainObject(value)
+      ? Object.keys(value)
+          .sort()
+          .reduce(
+            (sorted, k) => {
+              sorted[k] = value[k]
+              return sorted
+            },
+            {} as Record<string, unknown>,
+          )
+      : value,
+  )
+}
+
+/**
+ * Returns the cache entry for the given hash, and creates it if it doesn't
+ * exist yet.
+ */
+export function getEntry<T>(hash: string): CacheEntry<T> {
+  let entry = cache.get(hash)
+  if (!entry) {
+    entry = {
+      data: shallowRef(null),
+      updatedAt: 0,
+      observers: 0,
+      listeners: new Set(),
+    }
+    cache.set(hash, entry)
+  }
+  return entry
+}
+
+/**
+ * Registers an observer of the entry and cancels its garbage collection.
+ */
+export function observe(entry: CacheEntry, onInvalidate: () => void) {
+  clearTimeout(entry.gcTimeout)
+  entry.observers++
+  entry.listeners.add(onInvalidate)
+}
+
+/**
+ * Unregisters an observer of the entry. Once the last observer is gone, the
+ * entry is removed from the cache after {@link cacheTime} milliseconds.
+ */
+export function unobserve(
+  hash: string,
+  entry: CacheEntry,
+  onInvalidate: () => void,
+  cacheTime: number,
+) {
+  entry.observers--
+  entry.listeners.delete(onInvalidate)
+
+  if (entry.observers > 0) {
+    return
+  }
+
+  entry.gcTimeout = setTimeout(() => {
+    if (entry.observers === 0 && cache.get(hash) === entry) {
+      entry.request?.controller.abort()
+      cache.delete(hash)
+    }
+  }, cacheTime)
+}
+
+/**
+ * Returns the pending request of the entry, or starts a new one. The request
+ * is aborted once every caller that waits for it has aborted its signal.
+ */
+export function fetchShared<T>(
+  entry: CacheEntry<T>,
+  fetch: (signal: AbortSignal) => T | Promise<T>,
+  signal: AbortSignal,
+): Promise<T> {
+  let request = entry.request
+
+  if (!request) {
+    const controller = new AbortController()
+    const promise = new Promise<T>((resolve) =>
+      resolve(fetch(controller.signal)),
+    ).then(
+      (data) => {
+        // Requests that were aborted or replaced, e.g. by an invalidation,
+        // must not overwrite newer data.
+        if (entry.request === request && !controller.signal.aborted) {
+          entry.request = undefined
+          entry.data.value = data
+          entry.updatedAt = Date.now()
+        }
+        return data
+      },
+      (err) => {
+        if (entry.request === request) {
+          entry.request = undefined
+        }
+        throw err
+      },
+    )
+
+    request = { promise, controller, waiting: 0 }
+    entry.request = request
+  }
+
+  const current = request
+  current.waiting++
+
+  signal.addEventListener(
+    'abort',
+    () => {
+      if (--current.waiting > 0) {
+        return
+      }
+
+      current.controller.abort()
+      if (entry.request === current) {
+        entry.request = undefined
+      }
+    },
+    { once: true },
+  )
+
+  return current.promise
+}
+
+/**
+ * Marks the cached data of the given key as stale and notifies all observers,
+ * which refetch the data.
+ */
+export function invalidateQuery(key: QueryKey) {
+  const entry = cache.get(hashKey(key))
+  if (!entry) {
+    return
+  }
+
+  entry.updatedAt = 0
+  entry.listeners.forEach((listener) => listener())
+}
@@ -0,0 +1,246 @@
+import { describe, expect, it, vi } from 'vitest'
+import { effectScope, nextTick, ref } from 'vue'
+import { delay } from '../../test/delay'
+import { createUseQuery, useQuery } from './index'
+
+let keys = 0
+
+/**
+ * Returns a key that is not used by any other test.
+ */
+function uniqueKey(name: string) {
+  return `${name}-${++keys}`
+}
+
+describe('useQuery', () => {
+  it('fetches the data of the key', async () => {
+    const key = uniqueKey('user')
+    const fetcher = vi.fn(async (key: string) => ({ key }))
+
+    const { data, pending, error } = useQuery(key, fetcher)
+
+    expect(pending.value).toBe(true)
+    expect(data.value).toBeNull()
+
+    await delay(0)
+
+    expect(pending.value).toBe(false)
+    expect(error.value).toBeNull()
+    expect(data.value).toEqual({ key })
+    expect(fetcher).toHaveBeenCalledTimes(1)
+  })
+
+  it('passes an AbortSignal to the fetcher', async () => {
+    let signal: AbortSignal | undefined
+    useQuery(uniqueKey('signal'), (_, ctx) => {
+      signal = ctx.signal
+    })
+
+    await delay(0)
+
+    expect(signal).toBeInstanceOf(AbortSignal)
+  })
+
+  it('dedupes in-flight requests for identical keys', async () => {
+    const key = uniqueKey('dedupe')
+    const fetcher = vi.fn(async () => {
+      await delay(10)
+      return 'data'
+    })
+
+    const a = useQuery(['items', key], fetcher)
+    const b = useQuery(['items', key], fetcher)
+
+    await delay(20)
+
+    expect(fetcher).toHaveBeenCalledTimes(1)
+    expect(a.data.value).toBe('data')
+    expect(b.data.value).toBe('data')
+  })
+
+  it('returns cached data while it is fresh', async () => {
+    const key = uniqueKey('fresh')
+    const fetcher = vi.fn(async () => 'data')
+
+    useQuery(key, fetcher, { staleTime: 1000 })
+    await delay(0)
+
+    const { data, pending } = useQuery(key, fetcher, { staleTime: 1000 })
+
+    expect(data.value).toBe('data')
+    expect(pending.value).toBe(false)
+    expect(fetcher).toHaveBeenCalledTimes(1)
+  })
+
+  it('refetches stale data in the background', async () => {
+    const key = uniqueKey('stale')
+    let calls = 0
+    const fetcher = vi.fn(async () => `data ${++calls}`)
+
+    useQuery(key, fetcher)
+    await delay(0)
+
+    const { data, pending } = useQuery(key, fetcher)
+
+    expect(data.value).toBe('data 1')
+    expect(pending.value).toBe(true)
+
+    await delay(0)
+
+    expect(data.value).toBe('data 2')
+  })
+
+  it('refetches when the key changes', async () => {
+    const id = ref(1)
+    const prefix = uniqueKey('key')
+    const fetcher = vi.fn(async ([, id]: readonly [string, number]) => id * 10)
+
+    const { data } = useQuery(() => [prefix, id.value] as const, fetcher)
+    await delay(0)
+    expect(data.value).toBe(10)
+
+    id.value = 2
+    await nextTick()
+    expect(data.value).toBeNull()
+
+    await delay(0)
+    expect(data.value).toBe(20)
+    expect(fetcher).toHaveBeenCalledTimes(2)
+  })
+
+  it('ignores responses of previous keys', async () => {
+    const id = ref(1)
+    const prefix = uniqueKey('race')
+
+    const { data } = useQuery(
+      () => [prefix, id.value] as const,
+      async ([, id]) => {
+        await delay(id === 1 ? 20 : 5)
+        return id
+      },
+    )
+
+    id.value = 2
+    await delay(30)
+
+    expect(data.value).toBe(2)
+  })
+
+  it('reports errors like useAction', async () => {
+    const { data, error } = useQuery(uniqueKey('error'), async () => {
+      throw new Error('foo')
+    })
+
+    await delay(0)
+
+    expect(data.value).toBeNull()
+    expect(error.value).toBe('foo')
+  })
+
+  it(`uses the 'parseError' option of createUseQuery`, async () => {
+    const useQuery = createUseQuery({
+      parseError: (err) => `parsed: ${err.message}`,
+    })
+
+    const { error } = useQuery(uniqueKey('parse'), async () => {
+      throw new Error('foo')
+    })
+
+    await delay(0)
+
+    expect(error.value).toBe('parsed: foo')
+  })
+
+  it('refetches the data', async () => {
+    let calls = 0
+    const { data, refetch } = useQuery(
+      uniqueKey('refetch'),
+      async () => ++calls,
+      { staleTime: Number.POSITIVE_INFINITY },
+    )
+
+    await delay(0)
+    expect(data.value).toBe(1)
+
+    expect(await refetch()).toBe(2)
+    expect(data.value).toBe(2)
+  })
+
+  it('invalidates the data of all queries using the key', async () => {
+    const key = uniqueKey('invalidate')
+    let calls = 0
+    const fetcher = vi.fn(async () => ++calls)
+
+    const a = useQuery(key, fetcher, { staleTime: Number.POSITIVE_INFINITY })
+    const b = useQuery(key, fetcher, { staleTime: Number.POSITIVE_INFINITY })
+    await delay(0)
+    expect(fetcher).toHaveBeenCalledTimes(1)
+
+    a.invalidate()
+    await delay(0)
+
+    expect(fetcher).toHaveBeenCalledTimes(2)
+    expect(a.data.value).toBe(2)
+    expect(b.data.value).toBe(2)
+  })
+
+  it('does not overwrite fresh data with the result of an older request', async () => {
+    const key = uniqueKey('stale')
+    let calls = 0
+    const fetcher = vi.fn(async () => {
+      const value = ++calls
+      // Ignores the signal, so that the first request outlives the second
+      await delay(value === 1 ? 30 : 0)
+      return value
+    })
+
+    const { data, invalidate } = useQuery(key, fetcher)
+    await delay(5)
+    invalidate()
+    await delay(10)
+    expect(data.value).toBe(2)
+
+    await delay(30)
+    expect(fetcher).toHaveBeenCalledTimes(2)
+    expect(data.value).toBe(2)
+  })
+
+  it('does not fetch while disabled', async () => {
+    const enabled = ref(false)
+    const fetcher = vi.fn(async () => 'data')
+
+    const { data } = useQuery(uniqueKey('enabled'), fetcher, { enabled })
+    await delay(0)
+    expect(fetcher).not.toHaveBeenCalled()
+
+    enabled.value = true
+    await nextTick()
+    await delay(0)
+
+    expect(fetcher).toHaveBeenCalledTimes(1)
+    expect(data.value).toBe('data')
+  })
+
+  it('removes unused data after the cache time', async () => {
+    const key = uniqueKey('gc')
+    const fetcher = vi.fn(async () => 'data')
+    const scope = effectScope()
+
+    scope.run(() => useQuery(key, fetcher, { staleTime: 1000, cacheTime: 10 }))
+    await delay(0)
+    scope.stop()
+
+    expect(useQuery(key, fetcher, { staleTime: 1000 }).data.value).toBe('data')
+
+    const other = uniqueKey('gc')
+    const scope2 = effectScope()
+    scope2.run(() =>
+      useQuery(other, fetcher, { staleTime: 1000, cacheTime: 10 }),
+    )
+    await delay(0)
+    scope2.stop()
+    await delay(20)
+
+    expect(useQuery(other, fetcher).data.value).toBeNull()
+  })
+})
@@ -0,0 +1,202 @@
+import { type Ref, computed, shallowRef, watch } from 'vue'
+import { type MaybeRefOrGetter, toValue, tryOnScopeDispose } from '@vueuse/core'
+import { useVueUIConfig } from '../../plugin'
+import {
+  type ActionContext,
+  type RetryOption,
+  type UseActionBaseOptions,
+  createUseAction,
+} from '../useAction'
+import {
+  type CacheEntry,
+  type QueryKey,
+  fetchShared,
+  getEntry,
+  hashKey,
+  invalidateQuery,
+  observe,
+  unobserve,
+} from './cache'
+
+export { type QueryKey, invalidateQuery } from './cache'
+
+/**
+ * Fetches the data of a query.
+ */
+export type QueryFetcher<T, TKey extends QueryKey> = (
+  key: TKey,
+  ctx: ActionContext,
+) => T | Promise<T>
+
+/**
+ * Defines configuration options for the `useQuery` composable.
+ */
+export interface UseQueryOptions<TError extends Error | string = string> {
+  /**
+   * Number of milliseconds after which cached data is considered stale. Stale
+   * data is still returned, but refetched in the background.
+   *
+   * @default 0
+   */
+  staleTime?: number
+
+  /**
+   * Number of milliseconds that cached data is kept after the last query
+   * using it was disposed.
+   *
+   * @default 300000
+   */
+  cacheTime?: number
+
+  /**
+   * Whether the query should fetch. While disabled, cached data is still
+   * returned.
+   *
+   * @default true
+   */
+  enabled?: MaybeRefOrGetter<boolean>
+
+  /**
+   * A function to parse errors. Overrides the `parseError` option of
+   * {@link createUseQuery}.
+   */
+  parseError?: (error: Error) => TError
+
+  /**
+   * Retries failed fetches. See the `retry` option of `useAction`.
+   */
+  retry?: RetryOption
+}
+
+/**
+ * `createUseQuery` creates a `useQuery` composable that shares its base
+ * configuration with {@link createUseAction}. Passing the same options to
+ * both functions makes queries and actions parse and report errors
+ * identically.
+ */
+export function createUseQuery<TErrorGlobal extends Error | string = string>(
+  baseOptions?: UseActionBaseOptions<TErrorGlobal>,
+) {
+  const useAction = createUseAction(baseOptions)
+
+  return function useQuery<
+    T,
+    TKey extends QueryKey,
+    TError extends Error | string = TErrorGlobal,
+  >(
+    key: MaybeRefOrGetter<TKey>,
+    fetcher: QueryFetcher<T, TKey>,
+    options?: UseQueryOptions<TError>,
+  ) {
+    const config = useVueUIConfig().query
+    const staleTime = options?.staleTime ?? config?.staleTime ?? 0
+    const cacheTime = options?.cacheTime ?? config?.cacheTime ?? 5 * 60 * 1000
+    const enabled = computed(() => toValue(options?.enabled ?? true))
+
+    const [run, { pending, error, cancel }] = useAction(
+      (entry: CacheEntry<T>, key: TKey, ctx: ActionContext) =>
+        fetchShared(
+          entry,
+          (signal) => fetcher(key, { ...ctx, signal }),
+          ctx.signal,
+        ),
+      {
+        context: true,
+        concurrency: 'takeLatest',
+        parseError: options?.parseError as
+          ((error: Error) => TError) | undefined,
+        retry: options?.retry,
+      },
+    )
+
+    const hash = computed(() => hashKey(toValue(key)))
+    const entry = shallowRef<CacheEntry<T>>(getEntry(hash.value))
+
+    const data: Ref<T | null> = computed(() => entry.value.data.value)
+
+    function isStale() {
+      const { updatedAt } = entry.value
+      return updatedAt === 0 || Date.now() - updatedAt >= staleTime
+    }
+
+    /**
+     * Fetches the data of the current key, regardless of whether the cached
+     * data is stale.
+     */
+    async function refetch(): Promise<T | null> {
+      if (!enabled.value) {
+        return data.value
+      }
+
+      return (await run(entry.value, toValue(key))) as T | null
+    }
+
+    function onInvalidate() {
+      refetch()
+    }
+
+    /**
+     * Marks the cached data of the given key as stale, and refetches it in all
+     * queries that currently use it. Defaults to the current key.
+     */
+    function invalidate(target: QueryKey = toValue(key)) {
+      invalidateQuery(target)
+    }
+
+    watch(
+      hash,
+      (next, prev) => {
+        if (prev !== undefined) {
+          cancel()
+          unobserve(prev, entry.value, onInvalidate, cacheTime)
+          entry.value = getEntry(next)
+        }
+
+        observe(entry.value, onInvalidate)
+
+        if (enabled.value && isStale()) {
+          refetch()
+        }
+      },
+      { immediate: true },
+    )
+
+    watch(enabled, (enabled) => {
+      if (enabled && isStale()) {
+        refetch()
+      }
+    })
+
+    tryOnScopeDispose(() => {
+      unobserve(hash.value, entry.value, onInvalidate, cacheTime)
+    })
+
+    return {
+      data,
+      pending,
+      error,
+      refetch,
+      invalidate,
+    }
+  }
+}
+
+/**
+ * `useQuery` fetches data for a reactive key and caches the result. Queries
+ * with identical keys share their cache entry, and concurrent fetches of the
+ * same key are deduplicated into a single request. When the key changes, the
+ * data of the new key is fetched unless cached data is still fresh according
+ * to the `staleTime` option. Pending and error states behave like the ones
+ * of `useAction`.
+ *
+ * @example
+ * ```ts
+ * const id = ref(1)
+ * const { data, pending, error } = useQuery(
+ *   () => ['user', id.value],
+ *   ([, id], { signal }) => fetchUser(id, { signal }),
+ *   { staleTime: 60_000 },
+ * )
+ * ```
+ */
+export const useQuery = createUseQuery()
@@ -0,0 +1,148 @@
+/**
+ * How a query state is written to the history.
+ * - `push`: adds a history entry, so that back navigation restores the
+ *   previous value.
+ * - `replace`: replaces the current history entry.
+ */
+export type HistoryMode = 'push' | 'replace'
+
+/**
+ * Reads and writes the query parameters of the current location. Adapters
+ * make `useQueryState` independent of the router.
+ */
+export interface QueryStateAdapter {
+  /**
+   * Returns the query parameters of the current location.
+   */
+  read: () => URLSearchParams
+
+  /**
+   * Navigates to the current location with the given query parameters.
+   */
+  write: (params: URLSearchParams, mode: HistoryMode) => void
+
+  /**
+   * Calls the listener whenever the location changes, e.g. on back/forward
+   * navigation. Returns a function that removes the listener.
+   */
+  subscribe: (listener: () => void) => () => void
+}
+
+/**
+ * The parts of `window` that are used by {@link createHistoryAdapter}.
+ */
+export interface HistoryWindow {
+  location: { href: string }
+  history: {
+    state: unknown
+    pushState: (data: unknown, unused: string, url: string) => void
+    replaceState: (data: unknown, unused: string, url: string) => void
+  }
+  addEventListener: (type: 'popstate', listener: () => void) => void
+  removeEventListener: (type: 'popstate', listener: () => void) => void
+}
+
+/**
+ * Creates an adapter for `window.history` and `window.location`.
+ */
+export function createHistoryAdapter(
+  window: HistoryWindow = globalThis.window,
+): QueryStateAdapter {
+  return {
+    read: () => new URL(window.location.href).searchParams,
+
+    write(params, mode) {
+      const url = new URL(window.location.href)
+      url.search = params.toString()
+
+      const { history } = window
+      if (mode === 'push') {
+        history.pushState(history.state, '', url.href)
+      } else {
+        history.replaceState(history.state, '', url.href)
+      }
+    },
+
+    subscribe(listener) {
+      window.addEventListener('popstate', listener)
+      return () => window.removeEventListener('popstate', listener)
+    },
+  }
+}
+
+/**
+ * Creates an adapter that keeps the query parameters in memory, e.g. during
+ * SSR.
+ */
+export function createMemoryAdapter(search = ''): QueryStateAdapter {
+  let params = new URLSearchParams(search)
+
+  return {
+    read: () => new URLSearchParams(params),
+    write(next) {
+      params = new URLSearchParams(next)
+    },
+    subscribe: () => () => {},
+  }
+}
+
+type RouteQueryValue = string | null | undefined | (string | null)[]
+
+/**
+ * The parts of a `vue-router` router that are used by
+ * {@link createRouterAdapter}.
+ */
+export interface QueryRouter {
+  currentRoute: { value: { query: Record<string, RouteQueryValue> } }
+  push: (to: { query: Record<string, string | string[]> }) => unknown
+  replace: (to: { query: Record<string, string | string[]> }) => unknown
+  afterEach: (guard: () => void) => () => void
+}
+
+/**
+ * Creates an adapter for a `vue-router` router, so that query states are
+ * written using the router instead of `window.history`.
+ *
+ * @example
+ * ```ts
+ * const router = useRouter()
+ * const page = useQueryState('page', {
+ *   default: 1,
+ *   parse: Number,
+ *   adapter: createRouterAdapter(router),
+ * })
+ * ```
+ */
+export function createRouterAdapter(router: QueryRouter): QueryStateAdapter {
+  return {
+    read() {
+      const params = new URLSearchParams()
+      for (const [name, value] of Object.entries(
+        router.currentRoute.value.query,
+      )) {
+        for (const item of Array.isArray(value) ? value : [value]) {
+          if (item !== null && item !== undefined) {
+            params.append(name, item)
+          }
+        }
+      }
+      return params
+    },
+
+    write(params, mode) {
+      const query: Record<string, string | string[]> = {}
+      for (const name of new Set(params.keys())) {
+        const values = params.getAll(name)
+        query[name] = values.length === 1 ? values[0] : values
+      }
+
+      if (mode === 'push') {
+        router.push({ query })
+      } else {
+        router.replace({ query })
+      }
+    },
+
+    subscribe: (listener) => router.afterEach(() => listener()),
+  }
+}
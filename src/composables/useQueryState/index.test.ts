@@ -0,0 +1,270 @@
+import { describe, expect, it, vi } from 'vitest'
+import { effectScope, nextTick, ref } from 'vue'
+import { delay } from '../../test/delay'
+import { useSearch } from '../useSearch'
+import {
+  type HistoryWindow,
+  type QueryRouter,
+  createHistoryAdapter,
+  createMemoryAdapter,
+  createRouterAdapter,
+  useQueryState,
+} from './index'
+
+/**
+ * Stand-in for `window` with a history stack that supports back navigation.
+ */
+function createWindow(url = 'https://example.com/people') {
+  const listeners = new Set<() => void>()
+  const entries = [url]
+  let index = 0
+
+  const window = {
+    location: {
+      get href() {
+        return entries[index]
+      },
+    },
+    history: {
+      state: null,
+      pushState: vi.fn((_: unknown, __: string, url: string) => {
+        entries.splice(++index, entries.length, url)
+      }),
+      replaceState: vi.fn((_: unknown, __: string, url: string) => {
+        entries[index] = url
+      }),
+    },
+    addEventListener: (_: 'popstate', listener: () => void) =>
+      listeners.add(listener),
+    removeEventListener: (_: 'popstate', listener: () => void) =>
+      listeners.delete(listener),
+    back() {
+      index--
+      listeners.forEach((listener) => listener())
+    },
+    get search() {
+      return new URL(entries[index]).search
+    },
+  } satisfies HistoryWindow & Record<string, unknown>
+
+  return window
+}
+
+describe('useQueryState', () => {
+  it('reads the initial value from the URL', () => {
+    const adapter = createMemoryAdapter('?q=bob&page=2')
+
+    expect(useQueryState('q', { adapter }).value).toBe('bob')
+    expect(useQueryState('missing', { adapter }).value).toBeNull()
+    expect(useQueryState('missing', { adapter, default: 'x' }).value).toBe('x')
+  })
+
+  it('writes changes to the URL', async () => {
+    const window = createWindow()
+    const adapter = createHistoryAdapter(window)
+    const q = useQueryState('q', { adapter })
+
+    q.value = 'bob belcher'
+    await nextTick()
+
+    expect(window.search).toBe('?q=bob+belcher')
+    expect(window.history.replaceState).toHaveBeenCalledTimes(1)
+    expect(window.history.pushState).not.toHaveBeenCalled()
+  })
+
+  it('keeps other query parameters', async () => {
+    const window = createWindow('https://example.com/people?sort=name#top')
+    const q = useQueryState('q', { adapter: createHistoryAdapter(window) })
+
+    q.value = 'bob'
+    await nextTick()
+
+    expect(window.location.href).toBe(
+      'https://example.com/people?sort=name&q=bob#top',
+    )
+  })
+
+  it('removes the parameter for the default value', async () => {
+    const adapter = createMemoryAdapter('?q=bob&page=2')
+    const page = useQueryState('page', { adapter, default: 1, parse: Number })
+    const q = useQueryState('q', { adapter })
+
+    page.value = 1
+    q.value = ''
+    await nextTick()
+
+    expect(adapter.read().toString()).toBe('')
+  })
+
+  it('parses and serializes typed values', async () => {
+    const adapter = createMemoryAdapter('?tags=a,b&page=abc')
+    const tags = useQueryState('tags', {
+      adapter,
+      default: [] as string[],
+      parse: (value) => value.split(','),
+      serialize: (value) => value.join(','),
+    })
+    const page = useQueryState('page', {
+      adapter,
+      default: 1,
+      parse: (value) => {
+        const page = Number.parseInt(value)
+        if (Number.isNaN(page)) {
+          throw new TypeError(`invalid page: ${value}`)
+        }
+        return page
+      },
+    })
+
+    expect(tags.value).toEqual(['a', 'b'])
+    expect(page.value).toBe(1)
+
+    tags.value.push('c')
+    page.value = 3
+    await nextTick()
+
+    expect(adapter.read().toString()).toBe('tags=a%2Cb%2Cc&page=3')
+  })
+
+  it('pushes history entries', async () => {
+    const window = createWindow()
+    const q = useQueryState('q', {
+      adapter: createHistoryAdapter(window),
+      mode: 'push',
+    })
+
+    q.value = 'bob'
+    await nextTick()
+    q.value = 'linda'
+    await nextTick()
+
+    expect(window.history.pushState).toHaveBeenCalledTimes(2)
+  })
+
+  it('debounces writes', async () => {
+    const window = createWindow()
+    const q = useQueryState('q', {
+      adapter: createHistoryAdapter(window),
+      debounce: 10,
+    })
+
+    for (const value of ['b', 'bo', 'bob']) {
+      q.value = value
+      await nextTick()
+    }
+
+    expect(window.search).toBe('')
+
+    await delay(20)
+    expect(window.search).toBe('?q=bob')
+    expect(window.history.replaceState).toHaveBeenCalledTimes(1)
+  })
+
+  it('updates on back/forward navigation', async () => {
+    const window = createWindow()
+    const q = useQueryState('q', {
+      adapter: createHistoryAdapter(window),
+      mode: 'push',
+    })
+
+    q.value = 'bob'
+    await nextTick()
+    q.value = 'linda'
+    await nextTick()
+
+    window.back()
+    expect(q.value).toBe('bob')
+
+    await nextTick()
+    expect(window.history.pushState).toHaveBeenCalledTimes(2)
+
+    window.back()
+    expect(q.value).toBeNull()
+  })
+
+  it('drops pending writes on navigation', async () => {
+    const window = createWindow()
+    window.history.pushState(null, '', 'https://example.com/people?q=bob')
+    const q = useQueryState('q', {
+      adapter: createHistoryAdapter(window),
+      debounce: 10,
+    })
+
+    q.value = 'linda'
+    await nextTick()
+    window.back()
+    await delay(20)
+
+    expect(q.value).toBeNull()
+    expect(window.search).toBe('')
+  })
+
+  it('stops listening when the scope is disposed', () => {
+    const window = createWindow()
+    window.history.pushState(null, '', 'https://example.com/people?q=bob')
+
+    const scope = effectScope()
+    const q = scope.run(() =>
+      useQueryState('q', { adapter: createHistoryAdapter(window) }),
+    )!
+
+    scope.stop()
+    window.back()
+
+    expect(q.value).toBe('bob')
+  })
+
+  it('works with a router', async () => {
+    const afterEach = new Set<() => void>()
+    const currentRoute = ref({ query: { q: 'bob', tags: ['a', 'b'] } } as {
+      query: Record<string, string | string[]>
+    })
+    const navigate = vi.fn(
+      (to: { query: Record<string, string | string[]> }) => {
+        currentRoute.value = { query: to.query }
+        afterEach.forEach((guard) => guard())
+      },
+    )
+    const router: QueryRouter = {
+      currentRoute,
+      push: navigate,
+      replace: navigate,
+      afterEach: (guard) => {
+        afterEach.add(guard)
+        return () => afterEach.delete(guard)
+      },
+    }
+
+    const q = useQueryState('q', { adapter: createRouterAdapter(router) })
+    expect(q.value).toBe('bob')
+
+    q.value = 'linda'
+    await nextTick()
+    expect(navigate).toHaveBeenCalledWith({
+      query: { q: 'linda', tags: ['a', 'b'] },
+    })
+
+    navigate({ query: { q: 'tina' } })
+    expect(q.value).toBe('tina')
+  })
+
+  it('binds the input of useSearch', async () => {
+    const window = createWindow('https://example.com/?q=lin')
+    const adapter = createHistoryAdapter(window)
+    const people = ['Bob', 'Linda', 'Tina']
+
+    const { input, result } = useSearch(people, (name) => name, {
+      queryParam: { name: 'q', adapter, debounce: 0, mode: 'push' },
+    })
+
+    expect(input.value).toBe('lin')
+    expect(result.value).toEqual(['Linda'])
+
+    input.value = 'tina'
+    await nextTick()
+    expect(window.search).toBe('?q=tina')
+
+    window.back()
+    expect(result.value).toEqual(['Linda'])
+  })
+})
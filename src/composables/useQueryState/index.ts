@@ -0,0 +1,193 @@
+import { type Ref, ref, watch } from 'vue'
+import {
+  type MaybeRefOrGetter,
+  toRef,
+  toValue,
+  tryOnScopeDispose,
+} from '@vueuse/core'
+import { applyDefaults } from '../../shared'
+import { useVueUIConfig } from '../../plugin'
+import {
+  type HistoryMode,
+  type QueryStateAdapter,
+  createHistoryAdapter,
+  createMemoryAdapter,
+} from './adapters'
+
+export * from './adapters'
+
+/**
+ * Defines configuration options for the `useQueryState` composable.
+ */
+export interface UseQueryStateOptions<T> {
+  /**
+   * Value if the query parameter is missing or can't be parsed. The parameter
+   * is removed from the URL while the state has this value.
+   */
+  default?: T
+
+  /**
+   * Parses the query parameter. May throw to fall back to the default value.
+   * Required for non-string states.
+   */
+  parse?: (value: string) => T
+
+  /**
+   * Serializes the state into the query parameter.
+   *
+   * @default String
+   */
+  serialize?: (value: T) => string
+
+  /**
+   * Whether changes add a history entry (`push`) or replace the current one
+   * (`replace`).
+   *
+   * @default 'replace'
+   */
+  mode?: MaybeRefOrGetter<HistoryMode>
+
+  /**
+   * Number of milliseconds to wait after the last change before writing to
+   * the history.
+   *
+   * @default 0
+   */
+  debounce?: MaybeRefOrGetter<number>
+
+  /**
+   * Adapter that reads and writes the query parameters. Defaults to an
+   * adapter for `window.history`, or to an in-memory adapter if `window` is
+   * unavailable (e.g. during SSR).
+   */
+  adapter?: QueryStateAdapter
+}
+
+/**
+ * Binds a ref to a query parameter of the URL. Changes of the ref are written
+ * to the URL, and back/forward navigation updates the ref.
+ *
+ * @example
+ * ```ts
+ * const page = useQueryState('page', { default: 1, parse: Number })
+ * const tab = useQueryState('tab', { default: 'overview', mode: 'push' })
+ * ```
+ */
+export function useQueryState<T = string>(
+  name: string,
+  options: UseQueryStateOptions<T> & { default: T },
+): Ref<T>
+
+export function useQueryState<T = string>(
+  name: string,
+  options?: UseQueryStateOptions<T>,
+): Ref<T | null>
+
+export function useQueryState<T>(
+  name: string,
+  options?: UseQueryStateOptions<T>,
+): Ref<T | null> {
+  options = applyDefaults(options, useVueUIConfig().queryState)
+
+  const adapter = options?.adapter ?? defaultAdapter()
+  const fallback = options?.default ?? null
+  const parse = options?.parse ?? ((value: string) => value as T)
+  const serialize = options?.serialize ?? String
+  const mode = toRef(options?.mode ?? 'replace')
+  const debounce = toRef(options?.debounce ?? 0)
+
+  function read(): T | null {
+    const param = adapter.read().get(name)
+    if (param === null) {
+      return fallback
+    }
+
+    try {
+      return parse(param)
+    } catch {
+      return fallback
+    }
+  }
+
+  /**
+   * Returns the query parameter for the value, or `null` if the parameter
+   * should be removed.
+   */
+  function toParam(value: T | null) {
+    if (value === null || value === undefined) {
+      return null
+    }
+
+    const param = serialize(value)
+    if (param === '' || (fallback !== null && param === serialize(fallback))) {
+      return null
+    }
+    return param
+  }
+
+  const state = ref(read()) as Ref<T | null>
+
+  let timeout: ReturnType<typeof setTimeout> | undefined
+
+  function clearTimer() {
+    if (timeout !== undefined) {
+      clearTimeout(timeout)
+      timeout = undefined
+    }
+  }
+
+  function write() {
+    clearTimer()
+
+    const params = adapter.read()
+    const param = toParam(state.value)
+    if (params.get(name) === param) {
+      return
+    }
+
+    if (param === null) {
+      params.delete(name)
+    } else {
+      params.set(name, param)
+    }
+    adapter.write(params, toValue(mode))
+  }
+
+  watch(
+    state,
+    () => {
+      clearTimer()
+
+      const delay = toValue(debounce)
+      if (delay > 0) {
+        timeout = setTimeout(write, delay)
+      } else {
+        write()
+      }
+    },
+    { deep: true },
+  )
+
+  const unsubscribe = adapter.subscribe(() => {
+    // Navigation wins over changes that were not written yet.
+    clearTimer()
+
+    const value = read()
+    if (toParam(value) !== toParam(state.value)) {
+      state.value = value
+    }
+  })
+
+  tryOnScopeDispose(() => {
+    clearTimer()
+    unsubscribe()
+  })
+
+  return state
+}
+
+function defaultAdapter() {
+  return typeof window !== 'undefined' && window.history
+    ? createHistoryAdapter()
+    : createMemoryAdapter()
+}
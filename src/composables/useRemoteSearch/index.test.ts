@@ -0,0 +1,209 @@
+import { describe, expect, it, vi } from 'vitest'
+import { nextTick } from 'vue'
+import { delay } from '../../test/delay'
+import { createUseRemoteSearch, useRemoteSearch } from './index'
+
+const people = ['Bob', 'Linda', 'Tina', 'Gene', 'Louise']
+
+function fetchPeople(query: string) {
+  return people.filter((person) =>
+    person.toLowerCase().includes(query.toLowerCase()),
+  )
+}
+
+describe('useRemoteSearch', () => {
+  it('fetches the result after the debounce delay', async () => {
+    const fetcher = vi.fn(fetchPeople)
+    const { input, result } = useRemoteSearch(fetcher, { debounce: 10 })
+
+    input.value = 'l'
+    await nextTick()
+    input.value = 'li'
+    await nextTick()
+
+    expect(fetcher).not.toHaveBeenCalled()
+
+    await delay(20)
+
+    expect(fetcher).toHaveBeenCalledTimes(1)
+    expect(fetcher).toHaveBeenCalledWith('li', expect.anything())
+    expect(result.value).toEqual(['Linda'])
+  })
+
+  it('fetches a non-empty initial input immediately', async () => {
+    const fetcher = vi.fn(fetchPeople)
+    const { result } = useRemoteSearch(fetcher, { input: 'ina' })
+
+    await delay(0)
+
+    expect(fetcher).toHaveBeenCalledTimes(1)
+    expect(result.value).toEqual(['Tina'])
+  })
+
+  it('aborts in-flight requests when the input changes', async () => {
+    let signal: AbortSignal | undefined
+    const { input } = useRemoteSearch(
+      async (query, ctx) => {
+        signal = ctx.signal
+        await delay(20)
+        return fetchPeople(query)
+      },
+      { debounce: 0 },
+    )
+
+    input.value = 'b'
+    await delay(5)
+    expect(signal?.aborted).toBe(false)
+
+    input.value = 'bo'
+    await nextTick()
+    expect(signal?.aborted).toBe(true)
+  })
+
+  it('ignores out-of-order responses', async () => {
+    const durations: Record<string, number> = { l: 30, lo: 5 }
+    const { input, result, search } = useRemoteSearch(async (query) => {
+      await delay(durations[query])
+      return fetchPeople(query)
+    })
+
+    const first = search('l')
+    input.value = 'lo'
+    const second = search('lo')
+
+    expect(await second).toEqual(['Louise'])
+    expect(await first).toBeNull()
+    expect(result.value).toEqual(['Louise'])
+  })
+
+  it('reuses the request if only whitespace changes', async () => {
+    const fetcher = vi.fn(fetchPeople)
+    const { input } = useRemoteSearch(fetcher, { debounce: 0 })
+
+    input.value = 'bob'
+    await delay(5)
+    input.value = 'bob '
+    await delay(5)
+
+    expect(fetcher).toHaveBeenCalledTimes(1)
+  })
+
+  it('reports pending and error states', async () => {
+    const { input, pending, error } = useRemoteSearch(
+      async (query) => {
+        await delay(10)
+        if (query === 'fail') {
+          throw new Error('request failed')
+        }
+        return fetchPeople(query)
+      },
+      { debounce: 0 },
+    )
+
+    input.value = 'fail'
+    await delay(5)
+    expect(pending.value).toBe(true)
+
+    await delay(10)
+    expect(pending.value).toBe(false)
+    expect(error.value).toBe('request failed')
+
+    input.value = 'bob'
+    await delay(20)
+    expect(error.value).toBeNull()
+  })
+
+  it('uses the parseError option of createUseRemoteSearch', async () => {
+    const useRemoteSearch = createUseRemoteSearch({
+      parseError: (error) => new Error(`parsed: ${error.message}`),
+    })
+
+    const { error, search } = useRemoteSearch(() => {
+      throw new Error('request failed')
+    })
+
+    await search('bob')
+
+    expect(error.value).toEqual(new Error('parsed: request failed'))
+  })
+
+  it('does not fetch queries shorter than minLength', async () => {
+    const fetcher = vi.fn(fetchPeople)
+    const { input, result } = useRemoteSearch(fetcher, {
+      debounce: 0,
+      minLength: 3,
+    })
+
+    input.value = 'bo'
+    await delay(5)
+    expect(fetcher).not.toHaveBeenCalled()
+
+    input.value = 'bob'
+    await delay(5)
+    expect(result.value).toEqual(['Bob'])
+  })
+
+  describe('empty queries', () => {
+    it('clears the result by default', async () => {
+      const { input, result } = useRemoteSearch(fetchPeople, { debounce: 0 })
+
+      input.value = 'bob'
+      await delay(5)
+      expect(result.value).toEqual(['Bob'])
+
+      input.value = ''
+      await nextTick()
+      expect(result.value).toEqual([])
+    })
+
+    it('can keep the previous result', async () => {
+      const { input, result } = useRemoteSearch(fetchPeople, {
+        debounce: 0,
+        emptyQuery: 'keep',
+      })
+
+      input.value = 'bob'
+      await delay(5)
+
+      input.value = ''
+      await delay(5)
+      expect(result.value).toEqual(['Bob'])
+    })
+
+    it('can fetch the empty query', async () => {
+      const fetcher = vi.fn(fetchPeople)
+      const { input, result } = useRemoteSearch(fetcher, {
+        debounce: 0,
+        emptyQuery: 'fetch',
+        minLength: 2,
+      })
+
+      await delay(0)
+      expect(fetcher).toHaveBeenLastCalledWith('', expect.anything())
+      expect(result.value).toEqual(people)
+
+      input.value = 'b'
+      await delay(5)
+      expect(fetcher).toHaveBeenCalledTimes(1)
+    })
+
+    it('cancels in-flight requests', async () => {
+      const { input, result, pending } = useRemoteSearch(
+        async (query) => {
+          await delay(10)
+          return fetchPeople(query)
+        },
+        { debounce: 0 },
+      )
+
+      input.value = 'bob'
+      await delay(5)
+      expect(pending.value).toBe(true)
+
+      input.value = ''
+      await delay(10)
+      expect(pending.value).toBe(false)
+      expect(result.value).toEqual([])
+    })
+  })
+})
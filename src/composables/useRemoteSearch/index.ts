@@ -0,0 +1,244 @@
+import { type Ref, ref, shallowRef, watch } from 'vue'
+import {
+  type MaybeRefOrGetter,
+  toRef,
+  toValue,
+  tryOnScopeDispose,
+} from '@vueuse/core'
+import { applyDefaults } from '../../shared'
+import { useVueUIConfig } from '../../plugin'
+import {
+  type ActionContext,
+  type RetryOption,
+  type UseActionBaseOptions,
+  createUseAction,
+} from '../useAction'
+
+/**
+ * Fetches the items that match a search query.
+ */
+export type RemoteSearchFetcher<T> = (
+  query: string,
+  ctx: ActionContext,
+) => readonly T[] | Promise<readonly T[]>
+
+/**
+ * Behavior of `useRemoteSearch` for empty queries:
+ * - `clear`: the result is cleared.
+ * - `keep`: the result of the last query is kept.
+ * - `fetch`: the fetcher is called with an empty query, e.g. to fetch
+ *   suggestions.
+ */
+export type EmptyQueryBehavior = 'clear' | 'keep' | 'fetch'
+
+/**
+ * Defines configuration options for the `useRemoteSearch` composable.
+ */
+export interface UseRemoteSearchOptions<
+  TError extends Error | string = string,
+> {
+  /**
+   * Initial search input. A non-empty initial input is fetched immediately.
+   */
+  input?: string
+
+  /**
+   * Number of milliseconds to wait after the last input change before
+   * fetching.
+   *
+   * @default 300
+   */
+  debounce?: MaybeRefOrGetter<number>
+
+  /**
+   * Minimum length of the query. Shorter queries are treated as empty
+   * queries, see the `emptyQuery` option.
+   *
+   * @default 1
+   */
+  minLength?: MaybeRefOrGetter<number>
+
+  /**
+   * Behavior for empty queries. See {@link EmptyQueryBehavior}.
+   *
+   * @default 'clear'
+   */
+  emptyQuery?: MaybeRefOrGetter<EmptyQueryBehavior>
+
+  /**
+   * Removes leading and trailing whitespace from the input before fetching.
+   *
+   * @default true
+   */
+  trim?: boolean
+
+  /**
+   * A function to parse errors. Overrides the `parseError` option of
+   * {@link createUseRemoteSearch}.
+   */
+  parseError?: (error: Error) => TError
+
+  /**
+   * Retries failed fetches. See the `retry` option of `useAction`.
+   */
+  retry?: RetryOption
+}
+
+/**
+ * `createUseRemoteSearch` creates a `useRemoteSearch` composable that shares
+ * its base configuration with {@link createUseAction}.
+ */
+export function createUseRemoteSearch<
+  TErrorGlobal extends Error | string = string,
+>(baseOptions?: UseActionBaseOptions<TErrorGlobal>) {
+  const useAction = createUseAction(baseOptions)
+
+  return function useRemoteSearch<
+    T,
+    TError extends Error | string = TErrorGlobal,
+  >(fetcher: RemoteSearchFetcher<T>, options?: UseRemoteSearchOptions<TError>) {
+    options = applyDefaults(options, useVueUIConfig().remoteSearch)
+
+    const debounce = toRef(options?.debounce ?? 300)
+    const minLength = toRef(options?.minLength ?? 1)
+    const emptyQuery = toRef(options?.emptyQuery ?? 'clear')
+
+    const [run, { pending, error, cancel: cancelRun }] = useAction(
+      (query: string, ctx: ActionContext) => fetcher(query, ctx),
+      {
+        context: true,
+        concurrency: 'takeLatest',
+        parseError: options?.parseError as
+          ((error: Error) => TError) | undefined,
+        retry: options?.retry,
+      },
+    )
+
+    /**
+     * Input that is sent to the fetcher after the debounce delay.
+     */
+    const input = ref(options?.input ?? '')
+
+    /**
+     * Items returned by the fetcher for the latest query.
+     */
+    const result: Ref<readonly T[]> = shallowRef([])
+
+    /**
+     * The query of the current or last started request, or `null` if no
+     * request was started since the last cancellation.
+     */
+    let requested: string | null = null
+    let timeout: ReturnType<typeof setTimeout> | undefined
+
+    function clearTimer() {
+      if (timeout !== undefined) {
+        clearTimeout(timeout)
+        timeout = undefined
+      }
+    }
+
+    /**
+     * Returns the query that is sent to the fetcher for the given input, or
+     * `null` if no request should be made.
+     */
+    function toQuery(value: string) {
+      const query = options?.trim === false ? value : value.trim()
+
+      if (query && query.length >= toValue(minLength)) {
+        return query
+      }
+
+      return toValue(emptyQuery) === 'fetch' ? '' : null
+    }
+
+    function skip() {
+      cancel()
+      if (toValue(emptyQuery) === 'clear') {
+        result.value = []
+      }
+    }
+
+    /**
+     * Fetches the result for the given input (defaults to the current input)
+     * without waiting for the debounce delay. Resolves to `null` if the
+     * request failed or was replaced by a newer one.
+     */
+    async function search(value = input.value): Promise<readonly T[] | null> {
+      clearTimer()
+
+      const query = toQuery(value)
+      if (query === null) {
+        skip()
+        return result.value
+      }
+
+      requested = query
+      const items = (await run(query)) as readonly T[] | null
+      if (items) {
+        result.value = items
+      }
+
+      return items
+    }
+
+    /**
+     * Cancels the debounced and the in-flight request.
+     */
+    function cancel() {
+      clearTimer()
+      cancelRun()
+      requested = null
+    }
+
+    watch(input, (value) => {
+      const query = toQuery(value)
+
+      // Whitespace changes don't change the query, so the current request
+      // can be reused.
+      if (query !== null && query === requested) {
+        clearTimer()
+        return
+      }
+
+      if (query === null) {
+        skip()
+        return
+      }
+
+      cancel()
+      timeout = setTimeout(() => search(value), toValue(debounce))
+    })
+
+    if (toQuery(input.value) !== null) {
+      search()
+    }
+
+    tryOnScopeDispose(clearTimer)
+
+    return {
+      input,
+      result,
+      pending,
+      error,
+      search,
+      cancel,
+    }
+  }
+}
+
+/**
+ * `useRemoteSearch` searches a remote source, e.g. a server endpoint, using
+ * the provided fetcher. Input changes are debounced, in-flight requests are
+ * aborted when the input changes, and responses of outdated requests are
+ * ignored. Pending and error states behave like the ones of `useAction`.
+ *
+ * @example
+ * ```ts
+ * const { input, result, pending, error } = useRemoteSearch(
+ *   (query, { signal }) => fetchUsers({ query }, { signal }),
+ *   { debounce: 200, minLength: 2 },
+ * )
+ * ```
+ */
+export const useRemoteSearch = createUseRemoteSearch()
@@ -0,0 +1,214 @@
+import type { MatchRange } from './highlight'
+import { type NgramIndex, createNgramIndex } from './ngrams'
+import {
+  type NormalizeOptions,
+  type NormalizedText,
+  normalizeText,
+  toOriginalRange,
+} from './normalize'
+import { type SearchMode, matchTerm } from './scoring'
+
+/**
+ * A term of an item that matched the search input.
+ */
+export interface SearchMatch {
+  /**
+   * The original term.
+   */
+  term: string
+
+  /**
+   * Field that the term was extracted from, if the terms are provided as
+   * `TermFields`.
+   */
+  field?: string
+
+  /**
+   * Score of the match.
+   */
+  score: number
+
+  /**
+   * Matched character ranges of the original term. Can be passed to
+   * `highlight` to render the term.
+   */
+  ranges: MatchRange[]
+}
+
+/**
+ * A term extracted from an item.
+ */
+export interface SearchTerm {
+  value: string
+  field?: string
+}
+
+/**
+ * A term along with its normalized text.
+ */
+export interface NormalizedTerm extends SearchTerm {
+  normalized: NormalizedText
+}
+
+/**
+ * A normalized word of the search input.
+ */
+export interface SearchToken {
+  normalized: string
+  negated: boolean
+  field?: string
+}
+
+/**
+ * The normalized terms of the item at `position` in the list.
+ */
+export interface TermsEntry {
+  position: number
+  terms: readonly NormalizedTerm[]
+}
+
+/**
+ * An item of the list that matched all tokens.
+ */
+export interface EntryMatch {
+  position: number
+  score: number
+  matches: SearchMatch[]
+}
+
+/**
+ * Options for {@link searchEntries}.
+ */
+export interface SearchEntriesOptions {
+  mode: SearchMode
+  strict: boolean
+  threshold: number
+  weights: Partial<Record<string, number>>
+  sort: boolean
+}
+
+/**
+ * Normalizes the terms of an item.
+ */
+export function normalizeTerms(
+  terms: readonly SearchTerm[],
+  options: NormalizeOptions,
+): NormalizedTerm[] {
+  return terms.map((term) => ({
+    ...term,
+    normalized: normalizeText(term.value, options),
+  }))
+}
+
+/**
+ * Creates an n-gram index of the normalized terms of a list.
+ */
+export function createTermsIndex<T>(
+  getTerms: (item: T) => NormalizedTerm[],
+): NgramIndex<T, NormalizedTerm> {
+  return createNgramIndex(getTerms, (term) => term.normalized.value)
+}
+
+/**
+ * Returns the entries that have to be compared to the tokens. Without an
+ * index, or in `fuzzy` mode, these are all entries.
+ */
+export function selectEntries(
+  entries: readonly TermsEntry[],
+  index: NgramIndex<unknown, NormalizedTerm> | null,
+  tokens: readonly SearchToken[],
+  mode: SearchMode,
+): readonly TermsEntry[] {
+  if (!index || mode !== 'substring') {
+    return entries
+  }
+
+  return index.candidates(
+    tokens.filter((token) => !token.negated).map((token) => token.normalized),
+  )
+}
+
+/**
+ * Compares the tokens to the terms of each entry and returns the entries that
+ * match all tokens.
+ */
+export function searchEntries(
+  entries: readonly TermsEntry[],
+  tokens: readonly SearchToken[],
+  options: SearchEntriesOptions,
+): EntryMatch[] {
+  const matched: EntryMatch[] = []
+
+  for (const { position, terms } of entries) {
+    const match = matchEntry(terms, tokens, options)
+    if (match) {
+      matched.push({ position, ...match })
+    }
+  }
+
+  return options.sort
+    ? matched.sort((a, b) => b.score - a.score || a.position - b.position)
+    : matched
+}
+
+function matchEntry(
+  terms: readonly NormalizedTerm[],
+  tokens: readonly SearchToken[],
+  options: SearchEntriesOptions,
+) {
+  const ranges = new Map<
+    NormalizedTerm,
+    { score: number; ranges: MatchRange[] }
+  >()
+  let score = 0
+
+  for (const token of tokens) {
+    let best: number | null = null
+
+    for (const term of terms) {
+      if (token.field && term.field !== token.field) {
+        continue
+      }
+
+      const weight = term.field ? (options.weights[term.field] ?? 1) : 1
+      const match = matchTerm(token.normalized, term.normalized.value, {
+        ...options,
+        weight,
+      })
+      if (!match) {
+        continue
+      }
+
+      if (token.negated) {
+        return null
+      }
+
+      if (best === null || match.score > best) {
+        best = match.score
+      }
+
+      const termMatch = ranges.get(term) ?? { score: 0, ranges: [] }
+      termMatch.score = Math.max(termMatch.score, match.score)
+      termMatch.ranges.push(
+        ...match.ranges.map((range) => toOriginalRange(term.normalized, range)),
+      )
+      ranges.set(term, termMatch)
+    }
+
+    if (!token.negated) {
+      if (best === null) {
+        return null
+      }
+      score += best
+    }
+  }
+
+  const matches = [...ranges].map(([term, match]): SearchMatch => ({
+    term: term.value,
+    field: term.field,
+    score: match.score,
+    ranges: match.ranges.sort((a, b) => a[0] - b[0]),
+  }))
+
+  return { score, matches }
+}
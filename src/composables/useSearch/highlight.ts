@@ -0,0 +1,74 @@
+/**
+ * Range of characters `[start, end)` within a term.
+ */
+export type MatchRange = [start: number, end: number]
+
+/**
+ * Part of a highlighted text.
+ */
+export interface HighlightSegment {
+  text: string
+  match: boolean
+}
+
+/**
+ * Splits a text into matched and unmatched segments. Overlapping or adjacent
+ * ranges are merged.
+ *
+ * @example
+ * ```ts
+ * highlight('Belcher', [[2, 5]])
+ * // [
+ * //   { text: 'Be', match: false },
+ * //   { text: 'lch', match: true },
+ * //   { text: 'er', match: false },
+ * // ]
+ * ```
+ */
+export function highlight(
+  text: string,
+  ranges: readonly (readonly [number, number])[],
+): HighlightSegment[] {
+  const merged = mergeRanges(ranges, text.length)
+  const segments: HighlightSegment[] = []
+
+  let cursor = 0
+  for (const [start, end] of merged) {
+    if (start > cursor) {
+      segments.push({ text: text.slice(cursor, start), match: false })
+    }
+    segments.push({ text: text.slice(start, end), match: true })
+    cursor = end
+  }
+
+  if (cursor < text.length) {
+    segments.push({ text: text.slice(cursor), match: false })
+  }
+
+  return segments
+}
+
+function mergeRanges(
+  ranges: readonly (readonly [number, number])[],
+  length: number,
+) {
+  const sorted = ranges
+    .map(([start, end]): MatchRange => [
+      Math.max(0, start),
+      Math.min(length, end),
+    ])
+    .filter(([start, end]) => end > start)
+    .sort((a, b) => a[0] - b[0])
+
+  const merged: MatchRange[] = []
+  for (const range of sorted) {
+    const last = merged[merged.length - 1]
+    if (last && range[0] <= last[1]) {
+      last[1] = Math.max(last[1], range[1])
+    } else {
+      merged.push(range)
+    }
+  }
+
+  return merged
+}
@@ -0,0 +1,30 @@
+import { bench, describe } from 'vitest'
+import { useSearch } from './index'
+
+const words = ['alpha', 'bravo', 'charlie', 'delta', 'echo', 'foxtrot']
+const rows = Array.from({ length: 50_000 }, (_, i) => ({
+  name: `${words[i % words.length]} ${words[(i * 7) % words.length]} ${i}`,
+}))
+const inputs = ['1234', 'echo 49', 'charlie 777', '4999', 'alpha 12']
+
+/**
+ * Runs the search for each input. The terms or the index are built before
+ * the benchmark starts, so that only searching is measured.
+ */
+function setup(indexed: boolean) {
+  const search = useSearch(rows, ['name'], { indexed })
+  search.input.value = 'warmup'
+  void search.result.value
+
+  return () => {
+    for (const input of inputs) {
+      search.input.value = input
+      void search.result.value
+    }
+  }
+}
+
+describe('useSearch with 50k items', () => {
+  bench('linear scan', setup(false))
+  bench('indexed', setup(true))
+})
@@ -1,5 +1,8 @@
 import { describe, expect, it } from 'vitest'
-import { useSearch } from './index'
+import { effectScope, nextTick, reactive, ref } from 'vue'
+import { delay } from '../../test/delay'
+import { createWorkerStandIn } from '../../test/worker'
+import { exposeSearchWorker, highlight, useSearch } from './index'
 
 describe('useSearch', () => {
   const people = [
@@ -62,7 +65,7 @@ describe('useSearch', () => {
     const { result, input } = useSearch(
       people,
       (person) => [person.first, person.last],
-      { strict: true }
+      { strict: true },
     )
 
     input.value = 'lch' // Belcher
@@ -76,7 +79,7 @@ describe('useSearch', () => {
     const { result, input } = useSearch(
       people,
       (person) => [person.first, person.last],
-      { caseSensitive: true }
+      { caseSensitive: true },
     )
 
     input.value = 'lCh' // Belcher
@@ -128,4 +131,805 @@ describe('useSearch', () => {
     // @ts-expect-error
     useSearch(complex, ['weird'])
   })
+
+  describe('field paths', () => {
+    const customers = [
+      {
+        name: 'Bob',
+        address: { city: 'Ocean City', zip: 12345 },
+        tags: [{ name: 'burgers' }, { name: 'family' }],
+        orders: [{ items: ['Burger', 'Fries'], total: 12.5 }],
+        since: new Date('2011-01-09T00:00:00Z'),
+      },
+      {
+        name: 'Jimmy',
+        address: { city: 'Seymour', zip: 54321 },
+        tags: [{ name: 'pizza' }],
+        orders: [],
+        since: new Date('2012-03-04T00:00:00Z'),
+      },
+      {
+        name: 'Mort',
+        tags: [],
+        orders: [{ items: ['Burger'], total: 5 }],
+        since: new Date('2011-05-06T00:00:00Z'),
+      } as {
+        name: string
+        address?: { city: string; zip: number }
+        tags: { name: string }[]
+        orders: { items: string[]; total: number }[]
+        since: Date
+      },
+    ]
+
+    it('searches nested objects', () => {
+      const { input, result } = useSearch(customers, ['address.city'])
+
+      input.value = 'ocean'
+      expect(result.value).toEqual([customers[0]])
+    })
+
+    it('searches arrays of objects', () => {
+      const { input, result } = useSearch(customers, [
+        'tags[].name',
+        'orders[].items',
+      ])
+
+      input.value = 'pizza'
+      expect(result.value).toEqual([customers[1]])
+
+      input.value = 'burger'
+      expect(result.value).toEqual([customers[0], customers[2]])
+    })
+
+    it('qualifies words by path', () => {
+      const { input, result, matches } = useSearch(
+        customers,
+        ['name', 'tags[].name'],
+        { syntax: true },
+      )
+
+      input.value = 'tags[].name:fam'
+      expect(result.value).toEqual([customers[0]])
+      expect(matches.value.get(customers[0])).toEqual([
+        expect.objectContaining({ term: 'family', field: 'tags[].name' }),
+      ])
+    })
+
+    it('formats numbers and dates', () => {
+      const { input, result } = useSearch(
+        customers,
+        ['address.zip', 'orders[].total', 'since'],
+        {
+          format: (value: number | Date) =>
+            typeof value === 'number'
+              ? value.toFixed(2)
+              : value.toISOString().slice(0, 10),
+        },
+      )
+
+      input.value = '12.50'
+      expect(result.value).toEqual([customers[0]])
+
+      input.value = '54321.00'
+      expect(result.value).toEqual([customers[1]])
+
+      input.value = '2011-'
+      expect(result.value).toEqual([customers[0], customers[2]])
+    })
+
+    it('only allows paths that resolve to strings', () => {
+      useSearch(customers, ['address.city', 'tags[].name', 'orders[].items'])
+
+      // @ts-expect-error numbers require a formatter
+      useSearch(customers, ['address.zip'])
+
+      // @ts-expect-error dates require a formatter
+      useSearch(customers, ['since'])
+
+      // @ts-expect-error objects are not terms
+      useSearch(customers, ['address'])
+
+      // @ts-expect-error arrays of objects must be traversed with []
+      useSearch(customers, ['tags.name'])
+
+      // @ts-expect-error unknown path
+      useSearch(customers, ['address.street'])
+
+      useSearch(customers, ['address.zip'], {
+        format: (value: number) => String(value),
+      })
+
+      // @ts-expect-error the formatter only accepts numbers
+      useSearch(customers, ['since'], {
+        format: (value: number) => String(value),
+      })
+    })
+  })
+
+  describe('fuzzy mode', () => {
+    it('finds items with typos', () => {
+      const { result, input } = useSearch(people, ['first', 'last'], {
+        mode: 'fuzzy',
+      })
+
+      input.value = 'Lnda'
+      expect(result.value).toEqual([people[1]])
+
+      input.value = 'Lugi'
+      expect(result.value).toEqual([people[5]])
+    })
+
+    it('keeps substring mode as the default', () => {
+      const { result, input } = useSearch(people, ['first', 'last'])
+
+      input.value = 'Lnda'
+      expect(result.value).toHaveLength(0)
+    })
+
+    it('respects the threshold', () => {
+      const { result, input } = useSearch(people, ['first'], {
+        mode: 'fuzzy',
+        threshold: 1,
+      })
+
+      input.value = 'Lnda'
+      expect(result.value).toHaveLength(0)
+
+      input.value = 'inda'
+      expect(result.value).toEqual([people[1]])
+    })
+  })
+
+  describe('scoring', () => {
+    const words = [
+      { name: 'pineapple' },
+      { name: 'apple pie' },
+      { name: 'crab apple' },
+      { name: 'apple' },
+    ]
+
+    it('exposes the scores of the result', () => {
+      const { input, scores } = useSearch(words, ['name'])
+
+      expect(scores.value.size).toBe(0)
+
+      input.value = 'apple'
+      expect(scores.value.size).toBe(4)
+      expect(scores.value.get(words[3])).toBeGreaterThan(
+        scores.value.get(words[2])!,
+      )
+      expect(scores.value.get(words[2])).toBeGreaterThan(
+        scores.value.get(words[0])!,
+      )
+    })
+
+    it('sorts the result by score', () => {
+      const { input, result } = useSearch(words, ['name'], { sort: true })
+
+      input.value = 'apple'
+      expect(result.value).toEqual([words[1], words[3], words[2], words[0]])
+    })
+
+    it('ranks exact matches above fuzzy matches', () => {
+      const names = [{ name: 'Lidna' }, { name: 'Linda' }]
+      const { input, result } = useSearch(names, ['name'], {
+        mode: 'fuzzy',
+        sort: true,
+      })
+
+      input.value = 'linda'
+      expect(result.value).toEqual([names[1], names[0]])
+    })
+
+    it('weights matches per field', () => {
+      const { input, result } = useSearch(
+        [
+          { title: 'Cooking', body: 'Bob likes music' },
+          { title: 'Music', body: 'Linda likes cooking' },
+        ],
+        ['title', 'body'],
+        { sort: true, weights: { body: 2 } },
+      )
+
+      input.value = 'music'
+      expect(result.value[0].title).toBe('Cooking')
+    })
+  })
+
+  describe('query syntax', () => {
+    it('requires all words to match', () => {
+      const { input, result } = useSearch(people, ['first', 'last'], {
+        syntax: true,
+      })
+
+      input.value = 'bob belcher'
+      expect(result.value).toEqual([people[0]])
+
+      input.value = 'belcher   mario'
+      expect(result.value).toHaveLength(0)
+    })
+
+    it('matches quoted phrases as a whole', () => {
+      const items = ['Bob Belcher', 'Belcher Bob']
+      const { input, result } = useSearch(items, (item) => item, {
+        syntax: true,
+      })
+
+      input.value = 'bob belcher'
+      expect(result.value).toEqual(items)
+
+      input.value = '"bob belcher"'
+      expect(result.value).toEqual([items[0]])
+    })
+
+    it('excludes items matching negated words', () => {
+      const { input, result } = useSearch(people, ['first', 'last'], {
+        syntax: true,
+      })
+
+      input.value = 'belcher -bob -"tina"'
+      expect(result.value).toEqual([people[1], people[3]])
+    })
+
+    it('restricts words to the qualified field', () => {
+      const { input, result } = useSearch(people, ['first', 'last'], {
+        syntax: true,
+      })
+
+      input.value = 'mario'
+      expect(result.value).toEqual([people[4], people[5]])
+
+      input.value = 'first:mario'
+      expect(result.value).toEqual([people[4]])
+
+      input.value = '-last:belcher'
+      expect(result.value).toEqual([people[4], people[5]])
+    })
+
+    it('treats qualifiers of unknown fields as text', () => {
+      const items = [{ name: 'time: 10:00' }]
+      const { input, result, query } = useSearch(items, ['name'], {
+        syntax: true,
+      })
+
+      input.value = 'time:'
+      expect(result.value).toEqual(items)
+
+      input.value = 'foo:bar'
+      expect(query.value.tokens).toEqual([
+        { value: 'foo:bar', phrase: false, negated: false },
+      ])
+    })
+
+    it('exposes the parsed query', () => {
+      const { input, query } = useSearch(people, ['first', 'last'], {
+        syntax: true,
+      })
+
+      input.value = 'bob -last:"bel cher"'
+      expect(query.value).toEqual({
+        tokens: [
+          { value: 'bob', phrase: false, negated: false },
+          { value: 'bel cher', phrase: true, negated: true, field: 'last' },
+        ],
+      })
+    })
+
+    it('falls back to plain words on invalid syntax', () => {
+      const { input, query, result } = useSearch(people, ['first', 'last'], {
+        syntax: true,
+      })
+
+      input.value = '"bob belcher'
+      expect(query.value.error).toBeDefined()
+      expect(query.value.tokens.map((token) => token.value)).toEqual([
+        '"bob',
+        'belcher',
+      ])
+      expect(result.value).toHaveLength(0)
+
+      input.value = 'bob "belcher'
+      expect(query.value.tokens.map((token) => token.value)).toEqual([
+        'bob',
+        '"belcher',
+      ])
+    })
+
+    it('is disabled by default', () => {
+      const items = ['Bob Belcher', 'Belcher Bob']
+      const { input, result } = useSearch(items, (item) => item)
+
+      input.value = 'bob belcher'
+      expect(result.value).toEqual([items[0]])
+
+      input.value = '-bob'
+      expect(result.value).toHaveLength(0)
+    })
+
+    it('keeps negative numbers', () => {
+      const items = ['-5 degrees', '5 degrees']
+      const { input, result } = useSearch(items, (item) => item)
+
+      input.value = '-5'
+      expect(result.value).toEqual([items[0]])
+    })
+
+    it('matches whole terms in strict mode', () => {
+      const items = ['Bob Belcher', 'Bob']
+      const { input, result } = useSearch(items, (item) => item, {
+        strict: true,
+      })
+
+      input.value = 'Bob Belcher'
+      expect(result.value).toEqual([items[0]])
+    })
+
+    it('highlights the matches of all words', () => {
+      const { input, matches } = useSearch(people, ['first', 'last'], {
+        syntax: true,
+      })
+
+      input.value = 'er b'
+      expect(matches.value.get(people[0])).toEqual([
+        expect.objectContaining({
+          term: 'Belcher',
+          ranges: [
+            [0, 1],
+            [5, 7],
+          ],
+        }),
+        expect.objectContaining({
+          term: 'Bob',
+          ranges: [
+            [0, 1],
+            [2, 3],
+          ],
+        }),
+      ])
+    })
+  })
+
+  describe('normalization', () => {
+    it('ignores diacritics', () => {
+      const items = ['Müller', 'Mueller', 'Crème brûlée']
+      const { input, result } = useSearch(items, (item) => item, {
+        ignoreDiacritics: true,
+      })
+
+      input.value = 'muller'
+      expect(result.value).toEqual([items[0]])
+
+      input.value = 'creme brulee'
+      expect(result.value).toEqual([items[2]])
+
+      input.value = 'Brûlée'
+      expect(result.value).toEqual([items[2]])
+    })
+
+    it('matches diacritics by default', () => {
+      const { input, result } = useSearch(['Müller'], (item) => item)
+
+      input.value = 'muller'
+      expect(result.value).toHaveLength(0)
+    })
+
+    it('matches composed and decomposed forms', () => {
+      const items = ['Mu\u0308ller', 'Caf\u00E9']
+      const { input, result } = useSearch(items, (item) => item, {
+        normalizeUnicode: true,
+      })
+
+      input.value = 'M\u00FCller'
+      expect(result.value).toEqual([items[0]])
+
+      input.value = 'cafe\u0301'
+      expect(result.value).toEqual([items[1]])
+    })
+
+    it('applies compatibility normalization', () => {
+      const items = ['ﬁnance', 'Ｗｉｄｅ']
+      const { input, result } = useSearch(items, (item) => item, {
+        normalizeUnicode: true,
+      })
+
+      input.value = 'fin'
+      expect(result.value).toEqual([items[0]])
+
+      input.value = 'wide'
+      expect(result.value).toEqual([items[1]])
+    })
+
+    it('folds case using the locale', () => {
+      const items = ['İSTANBUL', 'ISPARTA']
+      const { input, result } = useSearch(items, (item) => item, {
+        locale: 'tr',
+      })
+
+      input.value = 'istanbul'
+      expect(result.value).toEqual([items[0]])
+
+      input.value = 'ısparta'
+      expect(result.value).toEqual([items[1]])
+    })
+
+    it('applies custom normalizers', () => {
+      const items = ['Straße', 'Strasse']
+      const { input, result } = useSearch(items, (item) => item, {
+        normalizers: [(char) => (char === 'ß' ? 'ss' : char)],
+      })
+
+      input.value = 'strasse'
+      expect(result.value).toEqual(items)
+
+      input.value = 'straß'
+      expect(result.value).toEqual(items)
+    })
+
+    it('reports ranges in the original term', () => {
+      const items = ['Straße Müller', 'Mu\u0308ller']
+      const { input, matches } = useSearch(items, (item) => item, {
+        ignoreDiacritics: true,
+        normalizers: [(char) => (char === 'ß' ? 'ss' : char)],
+        syntax: true,
+      })
+
+      input.value = 'sse muller'
+      expect(matches.value.get(items[0])?.[0].ranges).toEqual([
+        [4, 6],
+        [7, 13],
+      ])
+      expect(matches.value.has(items[1])).toBe(false)
+
+      input.value = 'muller'
+      expect(matches.value.get(items[1])?.[0].ranges).toEqual([[0, 7]])
+    })
+  })
+
+  describe('indexed', () => {
+    it('finds the same items as a linear scan', () => {
+      const linear = useSearch(people, ['first', 'last'], { syntax: true })
+      const indexed = useSearch(people, ['first', 'last'], {
+        indexed: true,
+        syntax: true,
+      })
+
+      for (const input of [
+        'b',
+        'el',
+        'bel',
+        'belcher',
+        'ina',
+        'e b',
+        '-bob',
+        'first:e',
+        '"la belcher"',
+        'xyz',
+      ]) {
+        linear.input.value = input
+        indexed.input.value = input
+        expect(indexed.result.value, input).toEqual(linear.result.value)
+        expect(indexed.matches.value, input).toEqual(linear.matches.value)
+      }
+    })
+
+    it('returns all items for an empty input', () => {
+      const { result } = useSearch(people, ['first'], { indexed: true })
+      expect(result.value).toEqual(people)
+    })
+
+    it('updates the index when items are added or removed', () => {
+      const list = ref(people.slice(0, 3))
+      const { input, result } = useSearch(list, (person) => person.first, {
+        indexed: true,
+      })
+
+      input.value = 'n'
+      expect(result.value).toEqual([people[1], people[2]])
+
+      list.value = [...list.value, people[3]]
+      expect(result.value).toEqual([people[1], people[2], people[3]])
+
+      list.value = list.value.filter((person) => person.first !== 'Tina')
+      expect(result.value).toEqual([people[1], people[3]])
+    })
+
+    it('re-indexes items that are edited in place', () => {
+      const list = reactive([{ name: 'Bob' }, { name: 'Linda' }])
+      const indexed = useSearch(list, (item) => item.name, { indexed: true })
+      const linear = useSearch(list, (item) => item.name)
+
+      indexed.input.value = 'tina'
+      linear.input.value = 'tina'
+      expect(indexed.result.value).toEqual([])
+
+      list[0].name = 'Tina'
+      expect(linear.result.value).toEqual([list[0]])
+      expect(indexed.result.value).toEqual([list[0]])
+
+      indexed.input.value = 'bob'
+      expect(indexed.result.value).toEqual([])
+    })
+
+    it('handles duplicate items', () => {
+      const list = ref(['Bob', 'Bob', 'Linda'])
+      const { input, result } = useSearch(list, (item) => item, {
+        indexed: true,
+      })
+
+      input.value = 'bob'
+      expect(result.value).toEqual(['Bob', 'Bob'])
+
+      list.value = ['Bob', 'Linda']
+      expect(result.value).toEqual(['Bob'])
+    })
+
+    it('rebuilds the index when the normalization changes', () => {
+      const caseSensitive = ref(false)
+      const { input, result } = useSearch(people, ['first'], {
+        indexed: true,
+        caseSensitive,
+      })
+
+      input.value = 'bob'
+      expect(result.value).toEqual([people[0]])
+
+      caseSensitive.value = true
+      expect(result.value).toEqual([])
+    })
+
+    it('scans all items in fuzzy mode', () => {
+      const { input, result } = useSearch(people, ['first'], {
+        indexed: true,
+        mode: 'fuzzy',
+      })
+
+      input.value = 'Lnda'
+      expect(result.value).toEqual([people[1]])
+    })
+
+    it('finds the same items as a linear scan in large lists', () => {
+      const words = ['alpha', 'bravo', 'charlie', 'delta', 'echo', 'foxtrot']
+      const rows = Array.from({ length: 5_000 }, (_, i) => ({
+        name: `${words[i % words.length]} ${words[(i * 7) % words.length]} ${i}`,
+      }))
+      const linear = useSearch(rows, ['name'])
+      const indexed = useSearch(rows, ['name'], { indexed: true })
+
+      for (const input of ['1234', 'echo 49', 'charlie 777', '4999']) {
+        linear.input.value = input
+        indexed.input.value = input
+        expect(indexed.result.value, input).toEqual(linear.result.value)
+      }
+    })
+  })
+
+  describe('worker', () => {
+    function standIn() {
+      return createWorkerStandIn((scope) => exposeSearchWorker(scope))
+    }
+
+    it('computes the result in the worker', async () => {
+      const worker = standIn()
+      const { input, result, pending } = useSearch(people, ['first', 'last'], {
+        worker: () => worker,
+      })
+
+      input.value = 'ina'
+      await nextTick()
+      expect(pending.value).toBe(true)
+      expect(result.value).toEqual(people)
+
+      await delay(10)
+      expect(pending.value).toBe(false)
+      expect(result.value).toEqual([people[2]])
+      expect(worker.messages.map((message) => message.type)).toEqual([
+        'items',
+        'search',
+      ])
+    })
+
+    it('reports the same scores and matches as the main thread', async () => {
+      const options = { sort: true, weights: { last: 2 } }
+      const main = useSearch(people, ['first', 'last'], options)
+      const offloaded = useSearch(people, ['first', 'last'], {
+        ...options,
+        worker: standIn,
+      })
+
+      main.input.value = 'e -gene'
+      offloaded.input.value = 'e -gene'
+      await delay(10)
+
+      expect(offloaded.result.value).toEqual(main.result.value)
+      expect(offloaded.scores.value).toEqual(main.scores.value)
+      expect(offloaded.matches.value).toEqual(main.matches.value)
+    })
+
+    it('supports the indexed mode', async () => {
+      const { input, result } = useSearch(people, ['first'], {
+        indexed: true,
+        worker: standIn,
+      })
+
+      input.value = 'in'
+      await delay(10)
+      expect(result.value).toEqual([people[1], people[2]])
+    })
+
+    it('ignores results of outdated searches', async () => {
+      const { input, result } = useSearch(people, ['first'], {
+        worker: standIn,
+      })
+
+      input.value = 'b'
+      await nextTick()
+      input.value = 'l'
+      await delay(10)
+
+      expect(result.value).toEqual([people[1], people[5]])
+    })
+
+    it('sends the terms when the list changes', async () => {
+      const list = ref(people.slice(0, 2))
+      const { input, result } = useSearch(list, ['first'], {
+        worker: standIn,
+      })
+
+      input.value = 'e'
+      await delay(10)
+      expect(result.value).toEqual([])
+
+      list.value = [...people]
+      await delay(10)
+      expect(result.value).toEqual([people[3]])
+    })
+
+    it('falls back to the main thread if the worker cannot be created', () => {
+      const { input, result, pending } = useSearch(people, ['first'], {
+        worker: () => {
+          throw new ReferenceError('Worker is not defined')
+        },
+      })
+
+      input.value = 'bob'
+      expect(result.value).toEqual([people[0]])
+      expect(pending.value).toBe(false)
+    })
+
+    it('falls back to the main thread if the worker fails', async () => {
+      const worker = standIn()
+      const { input, result, pending } = useSearch(people, ['first'], {
+        worker: () => worker,
+      })
+
+      input.value = 'bob'
+      await nextTick()
+      worker.crash()
+
+      expect(pending.value).toBe(false)
+      expect(result.value).toEqual([people[0]])
+    })
+
+    it('falls back to the main thread with custom normalizers', () => {
+      const worker = standIn()
+      const { input, result } = useSearch(['Straße'], (item) => item, {
+        normalizers: [(char) => (char === 'ß' ? 'ss' : char)],
+        worker: () => worker,
+      })
+
+      input.value = 'strasse'
+      expect(result.value).toEqual(['Straße'])
+      expect(worker.messages).toHaveLength(0)
+    })
+
+    it('terminates the worker when the scope is disposed', () => {
+      const worker = standIn()
+      const scope = effectScope()
+      scope.run(() => useSearch(people, ['first'], { worker: () => worker }))
+
+      scope.stop()
+      expect(worker.terminated()).toBe(true)
+    })
+  })
+
+  describe('matches', () => {
+    it('reports the matched terms and ranges', () => {
+      const { input, matches } = useSearch(people, ['first', 'last'])
+
+      input.value = 'b'
+      expect(matches.value.get(people[0])).toEqual([
+        {
+          term: 'Bob',
+          field: 'first',
+          score: expect.any(Number),
+          ranges: [
+            [0, 1],
+            [2, 3],
+          ],
+        },
+        {
+          term: 'Belcher',
+          field: 'last',
+          score: expect.any(Number),
+          ranges: [[0, 1]],
+        },
+      ])
+      expect(matches.value.has(people[4])).toBe(false)
+    })
+
+    it('respects case-sensitivity', () => {
+      const { input, matches } = useSearch(people, (person) => person.first, {
+        caseSensitive: true,
+      })
+
+      input.value = 'B'
+      expect(matches.value.get(people[0])?.[0].ranges).toEqual([[0, 1]])
+
+      input.value = 'b'
+      expect(matches.value.get(people[0])?.[0].ranges).toEqual([[2, 3]])
+    })
+
+    it('respects strict mode', () => {
+      const { input, matches } = useSearch(people, ['first'], { strict: true })
+
+      input.value = 'Bob'
+      expect(matches.value.get(people[0])?.[0].ranges).toEqual([[0, 3]])
+
+      input.value = 'bob'
+      expect(matches.value.size).toBe(0)
+    })
+
+    it('maps ranges of trimmed terms to the original term', () => {
+      const items = ['  Bob Belcher ']
+      const { input, matches } = useSearch(items, (item) => item, {
+        trim: true,
+      })
+
+      input.value = ' belcher '
+      expect(matches.value.get(items[0])?.[0].ranges).toEqual([[6, 13]])
+    })
+
+    it('reports the matched range in fuzzy mode', () => {
+      const { input, matches } = useSearch(people, ['first'], {
+        mode: 'fuzzy',
+      })
+
+      input.value = 'Lnda'
+      expect(matches.value.get(people[1])?.[0].ranges).toEqual([[0, 5]])
+    })
+  })
+})
+
+describe('highlight', () => {
+  it('splits a text into matched and unmatched segments', () => {
+    expect(
+      highlight('Bob Belcher', [
+        [0, 1],
+        [4, 5],
+      ]),
+    ).toEqual([
+      { text: 'B', match: true },
+      { text: 'ob ', match: false },
+      { text: 'B', match: true },
+      { text: 'elcher', match: false },
+    ])
+  })
+
+  it('merges overlapping ranges', () => {
+    expect(
+      highlight('Belcher', [
+        [3, 6],
+        [1, 4],
+      ]),
+    ).toEqual([
+      { text: 'B', match: false },
+      { text: 'elche', match: true },
+      { text: 'r', match: false },
+    ])
+  })
+
+  it('returns a single segment without ranges', () => {
+    expect(highlight('Bob', [])).toEqual([{ text: 'Bob', match: false }])
+  })
 })
@@ -1,6 +1,54 @@
-import { type MaybeRefOrGetter, toRef } from '@vueuse/core'
-import { computed, ref } from 'vue'
-import { type MaybeArray, type StringOf, forceArray } from '../../shared'
+import {
+  type MaybeRefOrGetter,
+  toRef,
+  toValue,
+  tryOnScopeDispose,
+} from '@vueuse/core'
+import { computed, ref, shallowRef, watch } from 'vue'
+import {
+  type MaybeArray,
+  type StringOf,
+  applyDefaults,
+  forceArray,
+} from '../../shared'
+import { useVueUIConfig } from '../../plugin'
+import { type UseQueryStateOptions, useQueryState } from '../useQueryState'
+import type { SearchMode } from './scoring'
+import { type Normalizer, normalizeText } from './normalize'
+import type { NgramIndex } from './ngrams'
+import { type SearchQuery, parseQuery } from './query'
+import {
+  type EntryMatch,
+  type NormalizedTerm,
+  type SearchEntriesOptions,
+  type SearchMatch,
+  type SearchTerm,
+  type TermsEntry,
+  createTermsIndex,
+  normalizeTerms,
+  searchEntries,
+  selectEntries,
+} from './engine'
+import { type SearchWorkerFactory, connectSearchWorker } from './worker'
+import {
+  type FormattableValue,
+  type LeafPath,
+  getPathValues,
+  parsePath,
+} from './paths'
+
+export type { SearchMode } from './scoring'
+export type { Normalizer } from './normalize'
+export type { SearchMatch } from './engine'
+export type { FormattableValue } from './paths'
+export {
+  type SearchWorker,
+  type SearchWorkerFactory,
+  type SearchWorkerScope,
+  exposeSearchWorker,
+} from './worker'
+export { type QueryToken, type SearchQuery, parseQuery } from './query'
+export { type HighlightSegment, type MatchRange, highlight } from './highlight'
 
 /**
  * Extracts the term(s) from an item that should be compared to the search input.
@@ -10,21 +58,204 @@ export type TermsFunction<T> = (item: T) => MaybeArray<string>
 /**
  * Fields of {@link T} that should be compared to the search input.
  */
-export type TermFields<T> = MaybeArray<
-  StringOf<StringFields<T> | StringArrayFields<T>>
->
+export type TermFields<
+  T,
+  TFormatted extends FormattableValue = never,
+> = MaybeArray<TermField<T, TFormatted>>
+
+/**
+ * A single field of {@link T} that can be compared to the search input. Can be
+ * a dot-path into nested objects (`address.city`) and arrays of objects
+ * (`tags[].name`), and must resolve to a string or an array of strings.
+ * Fields that resolve to a {@link TFormatted} value are also accepted, if a
+ * formatter is provided using the `format` option.
+ */
+export type TermField<
+  T,
+  TFormatted extends FormattableValue = never,
+> = StringOf<LeafPath<T, string | TFormatted>>
+
+/**
+ * Query parameter that the search input is bound to.
+ */
+export interface SearchQueryParam extends Omit<
+  UseQueryStateOptions<string>,
+  'default' | 'parse' | 'serialize'
+> {
+  name: string
+}
+
+/**
+ * Defines configuration options for the `useSearch` composable.
+ */
+export interface UseSearchOptions<
+  T,
+  TFormatted extends FormattableValue = never,
+> {
+  /**
+   * Makes the search case-sensitive.
+   *
+   * @default false
+   */
+  caseSensitive?: MaybeRefOrGetter<boolean>
+
+  /**
+   * Search input must match the term exactly. This option also enables case-sensitivity.
+   *
+   * @default false
+   */
+  strict?: MaybeRefOrGetter<boolean>
+
+  /**
+   * Trim whitespace from the search input before comparing to the items.
+   *
+   * @default true
+   */
+  trim?: boolean
+
+  /**
+   * Initial search input.
+   */
+  input?: string
+
+  /**
+   * Binds `input` to a query parameter of the URL, so that searches can be
+   * shared as links and restored by back/forward navigation. Either the name
+   * of the parameter, or the name along with options for `useQueryState`.
+   * The `input` option is used as the default value. Writes are debounced by
+   * 300 milliseconds unless configured otherwise.
+   */
+  queryParam?: string | SearchQueryParam
+
+  /**
+   * Ignores diacritics when comparing the input to the terms, so that
+   * "Muller" finds "Müller".
+   *
+   * @default false
+   */
+  ignoreDiacritics?: MaybeRefOrGetter<boolean>
+
+  /**
+   * Applies Unicode NFKC normalization to the input and the terms, so that
+   * compatibility characters like "ﬁ" match their canonical form ("fi").
+   *
+   * @default false
+   */
+  normalizeUnicode?: MaybeRefOrGetter<boolean>
+
+  /**
+   * Locale used for case-insensitive comparison, e.g. `tr` to fold the
+   * Turkish dotted "İ" into "i".
+   */
+  locale?: MaybeRefOrGetter<string | undefined>
+
+  /**
+   * Custom normalization steps that are applied to every character of the
+   * input and the terms, after the built-in normalization.
+   */
+  normalizers?: MaybeRefOrGetter<readonly Normalizer[]>
+
+  /**
+   * How the search input is compared to the terms. In `fuzzy` mode, terms
+   * that contain a string similar to the input also match, so typos like
+   * "Lnda" still find "Linda".
+   *
+   * @default 'substring'
+   */
+  mode?: MaybeRefOrGetter<SearchMode>
+
+  /**
+   * Minimum similarity between `0` and `1` that a term must have to match in
+   * `fuzzy` mode. `1` only allows exact substring matches.
+   *
+   * @default 0.6
+   */
+  threshold?: MaybeRefOrGetter<number>
+
+  /**
+   * Multiplies the score of matches in the given fields. Only applies if the
+   * terms are provided as {@link TermFields}.
+   */
+  weights?: MaybeRefOrGetter<Partial<Record<TermField<T, TFormatted>, number>>>
+
+  /**
+   * Formats numbers and dates of {@link TermFields} into terms. The type of
+   * the `value` parameter determines which fields are accepted.
+   *
+   * @example
+   * ```ts
+   * useSearch(orders, ['id', 'customer.name'], {
+   *   format: (value: number) => String(value).padStart(6, '0'),
+   * })
+   * ```
+   */
+  format?: (value: TFormatted, field: string) => string
+
+  /**
+   * Parses the input as a query: whitespace separates words that must all
+   * match, `"quoted phrases"` are matched as a whole, words prefixed with `-`
+   * must not match, and `field:value` restricts a word to one of the
+   * configured {@link TermFields}. Invalid syntax falls back to plain words.
+   * If disabled, the whole input is compared to the terms.
+   *
+   * @default false
+   */
+  syntax?: MaybeRefOrGetter<boolean>
+
+  /**
+   * Sorts the result by score, best match first. Items with the same score
+   * keep their order.
+   *
+   * @default false
+   */
+  sort?: MaybeRefOrGetter<boolean>
 
-type StringFields<T> = keyof {
-  [K in keyof T as T[K] extends string ? K : never]: T[K]
+  /**
+   * Builds an n-gram index of the terms, so that a search doesn't have to
+   * compare the input to every item. Speeds up searching large lists, at the
+   * cost of memory. The index is updated incrementally when items are added
+   * to or removed from the list. Only applies to the `substring` mode, fuzzy
+   * searches still compare the input to every item.
+   *
+   * @default false
+   */
+  indexed?: boolean
+
+  /**
+   * Runs the search in a Web Worker that is created by the given factory, so
+   * that searching large lists doesn't block the main thread. The worker must
+   * call {@link exposeSearchWorker}. The terms are still extracted on the
+   * main thread and sent to the worker whenever the list changes. `result`
+   * updates asynchronously while `pending` is `true`.
+   *
+   * Falls back to searching on the main thread if the worker can't be
+   * created (e.g. during SSR), if it fails, or while custom `normalizers`
+   * are used, because functions can't be sent to a worker.
+   */
+  worker?: SearchWorkerFactory
 }
 
-type StringArrayFields<T> = keyof {
-  [K in keyof T as T[K] extends string[] ? K : never]: T[K]
+interface ScoredItem<T> {
+  item: T
+  index: number
+  score: number
+  matches: SearchMatch[]
 }
 
 /**
  * Filters a list of items based on a search string.
  *
+ * Each match is scored: matches at the start of a term or at a word boundary
+ * score higher, and scores can be weighted per field using the `weights`
+ * option. The scores of the current result are exposed as `scores` and can
+ * be used to sort the result using the `sort` option. The matched terms and
+ * their character ranges are exposed as `matches`, and can be rendered using
+ * {@link highlight} or the `SearchHighlight` component.
+ *
+ * The input is parsed into a {@link SearchQuery} that is exposed as `query`,
+ * e.g. to render filter chips. See the `syntax` option for the supported
+ * syntax.
+ *
  * @example
  * ```ts
  * const items = [{ first: 'Bob', last: 'Belcher' }, { first: 'Linda', last: 'Belcher' }]
@@ -34,99 +265,322 @@ type StringArrayFields<T> = keyof {
  * const { input, result } = useSearch(items, person => ['first', 'last'])
  * ```
  */
-export function useSearch<T>(
+export function useSearch<T, TFormatted extends FormattableValue = never>(
   list: MaybeRefOrGetter<readonly T[]>,
-  terms: TermsFunction<T> | MaybeRefOrGetter<TermFields<T>>,
-  options?: {
-    /**
-     * Makes the search case-sensitive.
-     *
-     * @default false
-     */
-    caseSensitive?: MaybeRefOrGetter<boolean>
+  terms: TermsFunction<T> | MaybeRefOrGetter<TermFields<T, TFormatted>>,
+  options?: UseSearchOptions<T, TFormatted>,
+) {
+  options = applyDefaults(options, useVueUIConfig().search)
 
-    /**
-     * Search input must match the term exactly. This option also enables case-sensitivity.
-     *
-     * @default false
-     */
-    strict?: MaybeRefOrGetter<boolean>
+  const _list = computed(() => toValue(list))
+  const termFields = typeof terms === 'function' ? undefined : toRef(terms)
 
-    /**
-     * Trim whitespace from the search input before comparing to the items.
-     *
-     * @default true
-     */
-    trim?: boolean
+  const caseSensitive = toRef(options?.caseSensitive ?? false)
+  const strict = toRef(options?.strict ?? false)
+  const mode = toRef(options?.mode ?? 'substring')
+  const threshold = toRef(options?.threshold ?? 0.6)
+  const defaultWeights: Partial<Record<TermField<T, TFormatted>, number>> = {}
+  const weights = toRef(options?.weights ?? defaultWeights)
+  const sort = toRef(options?.sort ?? false)
+  const syntax = toRef(options?.syntax ?? false)
+  const ignoreDiacritics = toRef(options?.ignoreDiacritics ?? false)
+  const normalizeUnicode = toRef(options?.normalizeUnicode ?? false)
+  const locale = toRef(options?.locale)
+  const normalizers = toRef(options?.normalizers ?? [])
 
-    /**
-     * Initial search input.
-     */
-    input?: string
-  },
-) {
-  const _list = toRef(list)
-  const termFields = typeof terms === 'function' ? undefined : toRef(terms)
+  /**
+   * Input is compared to the terms of each item in the list.
+   */
+  const input = options?.queryParam
+    ? bindQueryParam(options.queryParam, options.input ?? '')
+    : ref(options?.input ?? '')
+
+  const normalizeOptions = computed(() => ({
+    locale: locale.value,
+    unicode: normalizeUnicode.value,
+    diacritics: ignoreDiacritics.value,
+    normalizers: normalizers.value,
+  }))
+
+  function normalizeInput(value: string) {
+    return normalizeText(value, {
+      ...normalizeOptions.value,
+      trim: !!options?.trim,
+      lowerCase: !(strict.value || caseSensitive.value),
+    }).value
+  }
+
+  /**
+   * Determines how the terms of an item are extracted and normalized.
+   */
+  const termConfig = computed(() => ({
+    fields:
+      termFields &&
+      forceArray(termFields.value).map((field) => ({
+        field,
+        path: parsePath(field),
+      })),
+    normalize: {
+      ...normalizeOptions.value,
+      trim: !strict.value && !!options?.trim,
+      lowerCase: !strict.value && !caseSensitive.value,
+    },
+  }))
+
+  function getTerms(item: T): SearchTerm[] {
+    const { fields } = termConfig.value
+    if (fields) {
+      return fields.flatMap(({ field, path }) =>
+        getPathValues(item, path).flatMap((value) => {
+          if (typeof value === 'string') {
+            return [{ value, field }]
+          }
 
-  function getTerms(item: T) {
-    if (termFields) {
-      const fields = forceArray(termFields.value)
-      return fields
-        .map((field) => forceArray(item[field] as string | string[]))
-        .flat()
+          if (typeof value === 'number' || value instanceof Date) {
+            const format = options?.format as
+              ((value: FormattableValue, field: string) => string) | undefined
+            return [
+              { value: format ? format(value, field) : String(value), field },
+            ]
+          }
+
+          return []
+        }),
+      )
     }
 
     const termsFn = terms as TermsFunction<T>
 
-    return forceArray(termsFn(item))
+    return forceArray(termsFn(item)).map((value) => ({ value }))
   }
 
-  const caseSensitive = toRef(options?.caseSensitive ?? false)
-  const strict = toRef(options?.strict ?? false)
+  function createTerms(item: T) {
+    return normalizeTerms(getTerms(item), termConfig.value.normalize)
+  }
 
   /**
-   * Input is compared to the terms of each item in the list.
+   * Parsed search input. Without query syntax, the whole input is a single
+   * token.
+   */
+  const query = computed<SearchQuery>(() =>
+    syntax.value
+      ? parseQuery(
+          input.value,
+          termFields ? forceArray(termFields.value) : undefined,
+        )
+      : {
+          tokens: [{ value: input.value, phrase: false, negated: false }],
+        },
+  )
+
+  const tokens = computed(() =>
+    query.value.tokens
+      .map((token) => ({ ...token, normalized: normalizeInput(token.value) }))
+      .filter((token) => token.normalized),
+  )
+
+  /**
+   * Normalized terms of each item. Only recomputed when the list or the
+   * normalization options change, not when the input changes.
+   */
+  const entries = computed(() =>
+    _list.value.map((item, position): TermsEntry => ({
+      position,
+      terms: createTerms(item),
+    })),
+  )
+
+  let ngramIndex: NgramIndex<T, NormalizedTerm> | undefined
+  let ngramIndexConfig: (typeof termConfig)['value'] | undefined
+
+  /**
+   * N-gram index of the terms, if the `indexed` option is enabled. Only added
+   * items and items whose terms changed are indexed, so the index is rebuilt
+   * when the extraction or normalization of terms changes.
    */
-  const input = ref(options?.input ?? '')
+  const searchIndex = computed(() => {
+    if (!options?.indexed) {
+      return null
+    }
+
+    if (!ngramIndex || ngramIndexConfig !== termConfig.value) {
+      ngramIndexConfig = termConfig.value
+      ngramIndex = createTermsIndex(createTerms)
+    }
+
+    return { index: ngramIndex, items: ngramIndex.update(_list.value) }
+  })
 
-  const modifiedInput = computed(() =>
-    maybeTrim(
-      strict.value || caseSensitive.value
-        ? input.value
-        : input.value.toLowerCase(),
-    ),
+  const searchOptions = computed((): SearchEntriesOptions => ({
+    mode: mode.value,
+    strict: strict.value,
+    threshold: threshold.value,
+    weights: { ...weights.value },
+    sort: sort.value,
+  }))
+
+  function toScoredItems(list: readonly T[], matched: EntryMatch[]) {
+    return matched.map(({ position, ...match }): ScoredItem<T> => ({
+      item: list[position],
+      index: position,
+      ...match,
+    }))
+  }
+
+  const workerFailed = ref(false)
+  const client = options?.worker
+    ? connectSearchWorker(options.worker, () => (workerFailed.value = true))
+    : null
+  const workerActive = computed(
+    () => !!client && !workerFailed.value && !normalizers.value.length,
   )
+  const workerScored = shallowRef<ScoredItem<T>[] | null>(null)
+  const workerPending = ref(false)
+
+  if (client) {
+    /**
+     * Terms of the list that are sent to the worker.
+     */
+    const workerItems = computed(() => {
+      if (!workerActive.value) {
+        return null
+      }
+
+      return {
+        terms: _list.value.map(getTerms),
+        normalize: { ...termConfig.value.normalize, normalizers: undefined },
+      }
+    })
+
+    /**
+     * Search that is sent to the worker. Changes whenever the items change,
+     * so that the result is refreshed.
+     */
+    const workerSearch = computed(() => {
+      if (!workerItems.value || !tokens.value.length) {
+        return null
+      }
+
+      return {
+        list: _list.value,
+        tokens: tokens.value.map(({ normalized, negated, field }) => ({
+          normalized,
+          negated,
+          field,
+        })),
+        options: searchOptions.value,
+      }
+    })
+
+    watch(
+      workerItems,
+      (items) => {
+        if (!items) {
+          return
+        }
+
+        try {
+          client.setItems(items.terms, items.normalize, !!options?.indexed)
+        } catch {
+          workerFailed.value = true
+        }
+      },
+      { immediate: true },
+    )
+
+    watch(
+      workerSearch,
+      async (search) => {
+        if (!search) {
+          client.cancel()
+          workerPending.value = false
+          workerScored.value = null
+          return
+        }
 
-  function maybeTrim(s: string) {
-    return options?.trim ? s.trim() : s
+        workerPending.value = true
+        try {
+          const matched = await client.search(search.tokens, search.options)
+          if (matched) {
+            workerScored.value = toScoredItems(search.list, matched)
+            workerPending.value = false
+          }
+        } catch {
+          workerFailed.value = true
+          workerPending.value = false
+        }
+      },
+      { immediate: true },
+    )
+
+    tryOnScopeDispose(() => client.terminate())
   }
 
-  const termsMap = computed(() => {
-    const map = new Map<number, string[]>()
-    _list.value.forEach((item, index) => map.set(index, getTerms(item)))
-    return map
+  const scored = computed(() => {
+    if (!tokens.value.length) {
+      return null
+    }
+
+    if (workerActive.value) {
+      return workerScored.value
+    }
+
+    const selected = searchIndex.value
+      ? selectEntries(
+          searchIndex.value.items,
+          searchIndex.value.index,
+          tokens.value,
+          mode.value,
+        )
+      : entries.value
+
+    return toScoredItems(
+      _list.value,
+      searchEntries(selected, tokens.value, searchOptions.value),
+    )
   })
 
   /**
    * Items that match the search input, or all items if the search input is empty.
    */
   const result = computed(() =>
-    modifiedInput.value
-      ? _list.value.filter(
-          (_, index) =>
-            termsMap.value
-              .get(index)
-              ?.some((term) =>
-                strict.value
-                  ? term === modifiedInput.value
-                  : maybeTrim(term.toLowerCase()).includes(modifiedInput.value),
-              ) ?? false,
-        )
-      : _list.value,
+    scored.value ? scored.value.map(({ item }) => item) : _list.value,
+  )
+
+  /**
+   * Scores of the items in the result. Empty if the search input is empty.
+   */
+  const scores = computed(
+    () => new Map(scored.value?.map(({ item, score }) => [item, score])),
+  )
+
+  /**
+   * Matched terms of the items in the result, including the matched
+   * character ranges within each term. Empty if the search input is empty.
+   */
+  const matches = computed(
+    () => new Map(scored.value?.map(({ item, matches }) => [item, matches])),
   )
 
+  /**
+   * Whether the worker is computing the result. Always `false` if the search
+   * runs on the main thread.
+   */
+  const pending = computed(() => workerActive.value && workerPending.value)
+
   return {
     input,
+    query,
     result,
+    pending,
+    scores,
+    matches,
   }
 }
+
+function bindQueryParam(param: string | SearchQueryParam, input: string) {
+  const { name, ...options } =
+    typeof param === 'string' ? { name: param } : param
+
+  return useQueryState(name, { debounce: 300, ...options, default: input })
+}
@@ -0,0 +1,186 @@
+const GRAM_SIZE = 3
+
+/**
+ * An item of the list that was added to an {@link NgramIndex}.
+ */
+export interface IndexedItem<T, TTerm> {
+  item: T
+
+  /**
+   * Position of the item in the list.
+   */
+  position: number
+
+  terms: TTerm[]
+  grams: Set<string>
+}
+
+/**
+ * Inverted index that maps the n-grams of the normalized terms of a list to
+ * the items that contain them.
+ */
+export interface NgramIndex<T, TTerm> {
+  /**
+   * Indexed items, in list order.
+   */
+  readonly items: readonly IndexedItem<T, TTerm>[]
+
+  /**
+   * Synchronizes the index with the given list. The terms of every item are
+   * extracted again, so that items that were edited in place are detected,
+   * but only added items and items whose terms changed are indexed, and only
+   * removed items are dropped from the index.
+   */
+  update(list: readonly T[]): readonly IndexedItem<T, TTerm>[]
+
+  /**
+   * Returns the items, in list order, that may contain all of the given
+   * (normalized) strings in one of their terms. The result may contain items
+   * that don't match, but never misses one that does.
+   */
+  candidates(values: readonly string[]): IndexedItem<T, TTerm>[]
+}
+
+/**
+ * Creates an {@link NgramIndex}. `getTerms` returns the terms of an item
+ * and `getText` returns the normalized text of a term.
+ */
+export function createNgramIndex<T, TTerm>(
+  getTerms: (item: T) => TTerm[],
+  getText: (term: TTerm) => string,
+): NgramIndex<T, TTerm> {
+  const postings = new Map<string, Set<IndexedItem<T, TTerm>>>()
+  let items: IndexedItem<T, TTerm>[] = []
+
+  function add(item: T, position: number, terms: TTerm[]) {
+    const grams = new Set(terms.flatMap((term) => ngrams(getText(term))))
+    const indexed: IndexedItem<T, TTerm> = { item, position, terms, grams }
+
+    for (const gram of grams) {
+      let posting = postings.get(gram)
+      if (!posting) {
+        posting = new Set()
+        postings.set(gram, posting)
+      }
+      posting.add(indexed)
+    }
+
+    return indexed
+  }
+
+  function remove(indexed: IndexedItem<T, TTerm>) {
+    for (const gram of indexed.grams) {
+      const posting = postings.get(gram)
+      posting?.delete(indexed)
+      if (posting?.size === 0) {
+        postings.delete(gram)
+      }
+    }
+  }
+
+  function update(list: readonly T[]) {
+    const previous = new Map<T, IndexedItem<T, TTerm>[]>()
+    for (const indexed of items) {
+      const same = previous.get(indexed.item)
+      if (same) {
+        same.push(indexed)
+      } else {
+        previous.set(indexed.item, [indexed])
+      }
+    }
+
+    items = list.map((item, position) => {
+      const terms = getTerms(item)
+      const indexed = previous.get(item)?.pop()
+      if (!indexed) {
+        return add(item, position, terms)
+      }
+      if (!sameTexts(indexed.terms, terms)) {
+        remove(indexed)
+        return add(item, position, terms)
+      }
+      indexed.position = position
+      indexed.terms = terms
+      return indexed
+    })
+
+    previous.forEach((removed) => removed.forEach(remove))
+
+    return items
+  }
+
+  /**
+   * Returns the items that contain the value in one of their terms.
+   */
+  function lookup(value: string) {
+    // Every substring of a term that is at most as long as an n-gram is
+    // contained in one of its n-grams.
+    if (value.length < GRAM_SIZE) {
+      const found = new Set<IndexedItem<T, TTerm>>()
+      postings.forEach((posting, gram) => {
+        if (gram.includes(value)) {
+          posting.forEach((indexed) => found.add(indexed))
+        }
+      })
+      return found
+    }
+
+    const grams = [...new Set(ngrams(value))].map(
+      (gram) => postings.get(gram) ?? new Set<IndexedItem<T, TTerm>>(),
+    )
+    grams.sort((a, b) => a.size - b.size)
+
+    const [smallest, ...rest] = grams
+    const found = new Set<IndexedItem<T, TTerm>>()
+    smallest.forEach((indexed) => {
+      if (rest.every((posting) => posting.has(indexed))) {
+        found.add(indexed)
+      }
+    })
+    return found
+  }
+
+  function candidates(values: readonly string[]) {
+    if (!values.length) {
+      return items
+    }
+
+    const sets = values.map(lookup).sort((a, b) => a.size - b.size)
+    const [smallest, ...rest] = sets
+
+    return [...smallest]
+      .filter((indexed) => rest.every((set) => set.has(indexed)))
+      .sort((a, b) => a.position - b.position)
+  }
+
+  function sameTexts(a: TTerm[], b: TTerm[]) {
+    return (
+      a.length === b.length &&
+      a.every((term, i) => getText(term) === getText(b[i]))
+    )
+  }
+
+  return {
+    get items() {
+      return items
+    },
+    update,
+    candidates,
+  }
+}
+
+/**
+ * Returns the n-grams of a text. Texts that are shorter than an n-gram are
+ * returned as a whole.
+ */
+function ngrams(text: string) {
+  if (text.length <= GRAM_SIZE) {
+    return text ? [text] : []
+  }
+
+  const grams: string[] = []
+  for (let i = 0; i <= text.length - GRAM_SIZE; i++) {
+    grams.push(text.slice(i, i + GRAM_SIZE))
+  }
+  return grams
+}
@@ -0,0 +1,153 @@
+/**
+ * Normalized version of a text, along with the position of each normalized
+ * character in the original text.
+ */
+export interface NormalizedText {
+  /**
+   * The normalized text.
+   */
+  value: string
+
+  /**
+   * `offsets[i]` is the index in the original text of the character that
+   * produced `value[i]`. The last element is the end of the normalized part
+   * of the original text.
+   */
+  offsets: number[]
+}
+
+/**
+ * Custom normalization step. Receives a single character, including its
+ * combining marks, and returns its normalized form, which may be empty or
+ * consist of multiple characters.
+ *
+ * @example
+ * ```ts
+ * const germanSharpS: Normalizer = (char) => (char === 'ß' ? 'ss' : char)
+ * ```
+ */
+export type Normalizer = (char: string) => string
+
+/**
+ * Options for {@link normalizeText}.
+ */
+export interface NormalizeOptions {
+  trim: boolean
+  lowerCase: boolean
+
+  /**
+   * Locale used for case folding.
+   */
+  locale?: string
+
+  /**
+   * Applies Unicode NFKC normalization.
+   */
+  unicode?: boolean
+
+  /**
+   * Removes diacritics, e.g. "ü" becomes "u".
+   */
+  diacritics?: boolean
+
+  /**
+   * Custom normalization steps, applied after the built-in ones.
+   */
+  normalizers?: readonly Normalizer[]
+}
+
+const COMBINING_MARK = /\p{M}/u
+const COMBINING_MARKS = /\p{M}/gu
+
+/**
+ * Normalizes a text character by character, keeping track of the original
+ * position of each character so that matches can be mapped back to the
+ * original text. Characters are processed together with their combining
+ * marks, so that decomposed and composed forms normalize identically.
+ */
+export function normalizeText(
+  text: string,
+  options: NormalizeOptions,
+): NormalizedText {
+  let start = 0
+  let end = text.length
+
+  if (options.trim) {
+    while (start < end && /\s/.test(text[start])) start++
+    while (end > start && /\s/.test(text[end - 1])) end--
+  }
+
+  let value = ''
+  const offsets: number[] = []
+
+  for (let i = start; i < end;) {
+    let char = String.fromCodePoint(text.codePointAt(i)!)
+    let next = i + char.length
+
+    while (next < end) {
+      const mark = String.fromCodePoint(text.codePointAt(next)!)
+      if (!COMBINING_MARK.test(mark)) {
+        break
+      }
+      char += mark
+      next += mark.length
+    }
+
+    const normalized = normalizeChar(char, options)
+
+    for (let k = 0; k < normalized.length; k++) {
+      offsets.push(i)
+    }
+
+    value += normalized
+    i = next
+  }
+
+  offsets.push(end)
+
+  return { value, offsets }
+}
+
+function normalizeChar(char: string, options: NormalizeOptions) {
+  let normalized = options.unicode ? char.normalize('NFKC') : char
+
+  if (options.lowerCase) {
+    normalized = options.locale
+      ? normalized.toLocaleLowerCase(options.locale)
+      : normalized.toLowerCase()
+  }
+
+  if (options.diacritics) {
+    normalized = normalized.normalize('NFD').replace(COMBINING_MARKS, '')
+  }
+
+  for (const normalizer of options.normalizers ?? []) {
+    normalized = normalizer(normalized)
+  }
+
+  return normalized
+}
+
+/**
+ * Maps a range of a normalized text to the corresponding range of the
+ * original text.
+ */
+export function toOriginalRange(
+  text: NormalizedText,
+  [start, end]: readonly [number, number],
+): [number, number] {
+  const { offsets } = text
+
+  if (end <= start) {
+    return [offsets[start], offsets[start]]
+  }
+
+  // A single original character may produce multiple normalized characters,
+  // so the range must end after the original character of its last match.
+  let next = end
+  while (next < offsets.length - 1 && offsets[next] === offsets[end - 1]) {
+    next++
+  }
+
+  return [offsets[start], offsets[next]]
+}
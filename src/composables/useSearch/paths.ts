@@ -0,0 +1,80 @@
+/**
+ * Values that can be formatted into a term using the `format` option of
+ * `useSearch`.
+ */
+export type FormattableValue = number | Date
+
+type Depth = [never, 0, 1, 2, 3, 4]
+
+/**
+ * Dot-paths into {@link T} that resolve to a {@link TLeaf} or an array of
+ * {@link TLeaf}. Arrays of objects are traversed using `[]`, e.g.
+ * `tags[].name`. Paths are limited to a depth of 5.
+ */
+export type LeafPath<T, TLeaf, D extends number = 5> = [D] extends [never]
+  ? never
+  : {
+      [K in keyof T & string]-?: NonNullable<T[K]> extends
+        TLeaf | readonly TLeaf[]
+        ? K
+        : NonNullable<T[K]> extends readonly (infer U)[]
+          ? `${K}[].${NestedPath<U, TLeaf, Depth[D]>}`
+          : `${K}.${NestedPath<NonNullable<T[K]>, TLeaf, Depth[D]>}`
+    }[keyof T & string]
+
+type NestedPath<T, TLeaf, D extends number> = T extends
+  Date | ((...args: any[]) => any) | readonly any[]
+  ? never
+  : T extends object
+    ? LeafPath<T, TLeaf, D>
+    : never
+
+/**
+ * A parsed path segment.
+ */
+interface Segment {
+  key: string
+  array: boolean
+}
+
+/**
+ * Parses a path like `address.city` or `tags[].name`.
+ */
+export function parsePath(path: string): Segment[] {
+  return path
+    .split('.')
+    .map((segment) =>
+      segment.endsWith('[]')
+        ? { key: segment.slice(0, -2), array: true }
+        : { key: segment, array: false },
+    )
+}
+
+/**
+ * Returns the values at the given path of an object. Arrays at the end of the
+ * path are flattened, and missing values are skipped.
+ */
+export function getPathValues(
+  value: unknown,
+  path: readonly Segment[],
+): unknown[] {
+  let values = [value]
+
+  for (const { key, array } of path) {
+    values = values.flatMap((value) => {
+      if (value === null || typeof value !== 'object') {
+        return []
+      }
+
+      const next = (value as Record<string, unknown>)[key]
+      if (array) {
+        return Array.isArray(next) ? next : []
+      }
+      return [next]
+    })
+  }
+
+  return values
+    .flatMap((value) => (Array.isArray(value) ? value : [value]))
+    .filter((value) => value !== null && value !== undefined)
+}
@@ -0,0 +1,118 @@
+/**
+ * Parsed search input. Items must match every token that is not negated, and
+ * must not match any negated token.
+ */
+export interface SearchQuery {
+  tokens: QueryToken[]
+
+  /**
+   * Set if the input contains invalid syntax. In that case, the input is
+   * split into plain text tokens on whitespace.
+   */
+  error?: string
+}
+
+/**
+ * A single word, or quoted phrase, of a {@link SearchQuery}.
+ */
+export interface QueryToken {
+  /**
+   * Text to search for, without quotes, negation or field qualifier.
+   */
+  value: string
+
+  /**
+   * Whether the token was a quoted phrase.
+   */
+  phrase: boolean
+
+  /**
+   * Whether the token was negated using a leading `-`.
+   */
+  negated: boolean
+
+  /**
+   * Field that the token is restricted to, if qualified using `field:value`.
+   */
+  field?: string
+}
+
+/**
+ * Parses a search input into a {@link SearchQuery}. The input is split on
+ * whitespace into tokens, supporting `"quoted phrases"`, `-negation` and
+ * `field:value` qualifiers. Qualifiers are only recognized for the given
+ * fields, otherwise they are treated as text.
+ *
+ * @example
+ * ```ts
+ * parseQuery('bob -last:"belcher" first:tina', ['first', 'last'])
+ * // {
+ * //   tokens: [
+ * //     { value: 'bob', phrase: false, negated: false },
+ * //     { value: 'belcher', phrase: true, negated: true, field: 'last' },
+ * //     { value: 'tina', phrase: false, negated: false, field: 'first' },
+ * //   ],
+ * // }
+ * ```
+ */
+export function parseQuery(
+  input: string,
+  fields: readonly string[] = [],
+): SearchQuery {
+  const tokens: QueryToken[] = []
+
+  let i = 0
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++
+      continue
+    }
+
+    let negated = false
+    if (input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      negated = true
+      i++
+    }
+
+    let field: string | undefined
+    const qualifier = /^([^\s:"]+):(?=\S)/.exec(input.slice(i))
+    if (qualifier && fields.includes(qualifier[1])) {
+      field = qualifier[1]
+      i += qualifier[0].length
+    }
+
+    if (input[i] === '"') {
+      const end = input.indexOf('"', i + 1)
+      if (end < 0) {
+        return {
+          tokens: plainTokens(input),
+          error: 'Unterminated quoted phrase',
+        }
+      }
+
+      const value = input.slice(i + 1, end)
+      if (value) {
+        tokens.push({ value, phrase: true, negated, field })
+      }
+
+      i = end + 1
+      continue
+    }
+
+    const start = i
+    while (i < input.length && !/\s/.test(input[i])) {
+      i++
+    }
+
+    tokens.push({ value: input.slice(start, i), phrase: false, negated, field })
+  }
+
+  return { tokens }
+}
+
+function plainTokens(input: string): QueryToken[] {
+  return input
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((value) => ({ value, phrase: false, negated: false }))
+}
@@ -0,0 +1,151 @@
+import type { MatchRange } from './highlight'
+
+/**
+ * How the search input is compared to the terms of an item.
+ *
+ * - `substring`: a term must contain the input.
+ * - `fuzzy`: a term must contain a string that is similar to the input,
+ *   allowing for typos.
+ */
+export type SearchMode = 'substring' | 'fuzzy'
+
+/**
+ * Match of the search input within a term.
+ */
+export interface TermMatch {
+  /**
+   * Relevance of the match. Higher is better.
+   */
+  score: number
+
+  /**
+   * Matched character ranges of the term.
+   */
+  ranges: MatchRange[]
+}
+
+/**
+ * Options for {@link matchTerm}.
+ */
+export interface MatchOptions {
+  mode: SearchMode
+  strict: boolean
+  threshold: number
+  weight: number
+}
+
+const PREFIX_BONUS = 0.2
+const WORD_BOUNDARY_BONUS = 0.1
+
+/**
+ * Compares a (normalized) search input to a (normalized) term. Returns the
+ * match or `null` if the term doesn't match.
+ */
+export function matchTerm(
+  input: string,
+  term: string,
+  options: MatchOptions,
+): TermMatch | null {
+  if (options.strict) {
+    return term === input
+      ? score(1, term, [[0, term.length]], options.weight)
+      : null
+  }
+
+  if (options.mode === 'substring') {
+    const ranges: MatchRange[] = []
+    for (
+      let start = term.indexOf(input);
+      start >= 0;
+      start = term.indexOf(input, start + input.length)
+    ) {
+      ranges.push([start, start + input.length])
+    }
+
+    return ranges.length ? score(1, term, ranges, options.weight) : null
+  }
+
+  const { distance, start, end } = approximateMatch(input, term)
+  const similarity = 1 - distance / input.length
+
+  return similarity >= options.threshold && end > start
+    ? score(similarity, term, [[start, end]], options.weight)
+    : null
+}
+
+function score(
+  similarity: number,
+  term: string,
+  ranges: MatchRange[],
+  weight: number,
+): TermMatch {
+  const bonus = Math.max(...ranges.map(([start]) => startBonus(term, start)))
+  return { score: (similarity + bonus) * weight, ranges }
+}
+
+function startBonus(term: string, start: number) {
+  if (start === 0) {
+    return PREFIX_BONUS
+  }
+  return isWordBoundary(term, start) ? WORD_BOUNDARY_BONUS : 0
+}
+
+function isWordBoundary(term: string, index: number) {
+  return !/[\p{L}\p{N}]/u.test(term[index - 1])
+}
+
+/**
+ * Finds the substring of `text` with the smallest edit distance to
+ * `pattern` (Sellers' algorithm).
+ */
+function approximateMatch(pattern: string, text: string) {
+  const m = pattern.length
+  const n = text.length
+
+  let prev = Array.from({ length: n + 1 }, () => 0)
+  let prevStart = Array.from({ length: n + 1 }, (_, j) => j)
+
+  for (let i = 1; i <= m; i++) {
+    const cur = [i]
+    const curStart = [0]
+
+    for (let j = 1; j <= n; j++) {
+      const cost = pattern[i - 1] === text[j - 1] ? 0 : 1
+
+      let best = prev[j - 1] + cost
+      let start = prevStart[j - 1]
+
+      // On ties, prefer the longer match.
+      const deletion = prev[j] + 1
+      if (deletion < best || (deletion === best && prevStart[j] < start)) {
+        best = deletion
+        start = prevStart[j]
+      }
+
+      const insertion = cur[j - 1] + 1
+      if (insertion < best || (insertion === best && curStart[j - 1] < start)) {
+        best = insertion
+        start = curStart[j - 1]
+      }
+
+      cur[j] = best
+      curStart[j] = start
+    }
+
+    prev = cur
+    prevStart = curStart
+  }
+
+  let distance = m
+  let start = 0
+  let end = 0
+  for (let j = 1; j <= n; j++) {
+    if (prev[j] < distance || (prev[j] === distance && prevStart[j] < start)) {
+      distance = prev[j]
+      start = prevStart[j]
+      end = j
+    }
+  }
+
+  return { distance, start, end }
+}
@@ -0,0 +1,228 @@
+import type { NgramIndex } from './ngrams'
+import type { NormalizeOptions } from './normalize'
+import {
+  type EntryMatch,
+  type NormalizedTerm,
+  type SearchEntriesOptions,
+  type SearchTerm,
+  type SearchToken,
+  type TermsEntry,
+  createTermsIndex,
+  normalizeTerms,
+  searchEntries,
+  selectEntries,
+} from './engine'
+
+/**
+ * The parts of a `Worker` that are used by `useSearch`. Can be implemented by
+ * a stand-in, e.g. in tests.
+ */
+export interface SearchWorker {
+  postMessage: (message: any) => void
+  addEventListener: (
+    type: 'message' | 'error' | 'messageerror',
+    listener: (event: any) => void,
+  ) => void
+  terminate: () => void
+}
+
+/**
+ * Creates the worker that runs the search, e.g.
+ * `() => new Worker(new URL('./search.worker.ts', import.meta.url), { type: 'module' })`.
+ * The worker must call {@link exposeSearchWorker}.
+ */
+export type SearchWorkerFactory = () => SearchWorker
+
+/**
+ * The parts of the global scope of a worker that are used by
+ * {@link exposeSearchWorker}.
+ */
+export interface SearchWorkerScope {
+  postMessage: (message: any) => void
+  addEventListener: (
+    type: 'message',
+    listener: (event: { data: any }) => void,
+  ) => void
+}
+
+interface ItemsRequest {
+  type: 'items'
+  terms: SearchTerm[][]
+  normalize: NormalizeOptions
+  indexed: boolean
+}
+
+interface SearchRequest {
+  type: 'search'
+  id: number
+  tokens: SearchToken[]
+  options: SearchEntriesOptions
+}
+
+type WorkerRequest = ItemsRequest | SearchRequest
+
+type WorkerResponse =
+  | { type: 'result'; id: number; matches: EntryMatch[] }
+  | { type: 'error'; id: number; message: string }
+
+/**
+ * Runs searches of `useSearch` that are sent to the worker. Must be called
+ * in the worker script that is created by the `worker` option of
+ * `useSearch`.
+ *
+ * @example
+ * ```ts
+ * // search.worker.ts
+ * import { exposeSearchWorker } from '@modernice/vue-ui'
+ *
+ * exposeSearchWorker()
+ * ```
+ */
+export function exposeSearchWorker(
+  scope: SearchWorkerScope = globalThis as unknown as SearchWorkerScope,
+) {
+  let entries: TermsEntry[] = []
+  let index: NgramIndex<TermsEntry, NormalizedTerm> | null = null
+
+  function respond(response: WorkerResponse) {
+    scope.postMessage(response)
+  }
+
+  scope.addEventListener('message', ({ data }: { data: WorkerRequest }) => {
+    if (data.type === 'items') {
+      entries = data.terms.map((terms, position) => ({
+        position,
+        terms: normalizeTerms(terms, data.normalize),
+      }))
+      index = data.indexed
+        ? createTermsIndex((entry: TermsEntry) => [...entry.terms])
+        : null
+      index?.update(entries)
+      return
+    }
+
+    try {
+      const { tokens, options } = data
+      const selected = selectEntries(entries, index, tokens, options.mode)
+      respond({
+        type: 'result',
+        id: data.id,
+        matches: searchEntries(selected, tokens, options),
+      })
+    } catch (error) {
+      respond({ type: 'error', id: data.id, message: String(error) })
+    }
+  })
+}
+
+interface PendingSearch {
+  id: number
+  resolve: (matches: EntryMatch[] | null) => void
+  reject: (error: unknown) => void
+}
+
+/**
+ * Main-thread side of a search worker.
+ */
+export interface SearchWorkerClient {
+  /**
+   * Sends the terms of the list to the worker.
+   */
+  setItems: (
+    terms: SearchTerm[][],
+    normalize: NormalizeOptions,
+    indexed: boolean,
+  ) => void
+
+  /**
+   * Runs a search in the worker. Resolves to `null` if the search was
+   * superseded by a newer one or cancelled.
+   */
+  search: (
+    tokens: SearchToken[],
+    options: SearchEntriesOptions,
+  ) => Promise<EntryMatch[] | null>
+
+  /**
+   * Cancels the pending search.
+   */
+  cancel: () => void
+
+  terminate: () => void
+}
+
+/**
+ * Creates a worker using the factory and connects to it. Returns `null` if
+ * the worker could not be created, e.g. during SSR. `onError` is called if
+ * the worker fails after it was created.
+ */
+export function connectSearchWorker(
+  factory: SearchWorkerFactory,
+  onError: (error: unknown) => void,
+): SearchWorkerClient | null {
+  let worker: SearchWorker
+  try {
+    worker = factory()
+  } catch {
+    return null
+  }
+
+  let lastId = 0
+  let pending: PendingSearch | undefined
+
+  function send(request: WorkerRequest) {
+    worker.postMessage(request)
+  }
+
+  function fail(error: unknown) {
+    pending?.reject(error)
+    pending = undefined
+    onError(error)
+  }
+
+  worker.addEventListener('message', ({ data }: { data: WorkerResponse }) => {
+    // Responses to superseded searches are ignored.
+    if (!pending || data.id !== pending.id) {
+      return
+    }
+
+    const { resolve, reject } = pending
+    pending = undefined
+
+    if (data.type === 'error') {
+      reject(new Error(data.message))
+    } else {
+      resolve(data.matches)
+    }
+  })
+  worker.addEventListener('error', fail)
+  worker.addEventListener('messageerror', fail)
+
+  function cancel() {
+    pending?.resolve(null)
+    pending = undefined
+  }
+
+  return {
+    setItems(terms, normalize, indexed) {
+      send({ type: 'items', terms, normalize, indexed })
+    },
+
+    search(tokens, options) {
+      cancel()
+
+      const id = ++lastId
+      return new Promise((resolve, reject) => {
+        pending = { id, resolve, reject }
+        send({ type: 'search', id, tokens, options })
+      })
+    },
+
+    cancel,
+
+    terminate() {
+      cancel()
+      worker.terminate()
+    },
+  }
+}
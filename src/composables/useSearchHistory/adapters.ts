@@ -0,0 +1,125 @@
+/**
+ * Reads and writes the entries of a search history. Adapters make
+ * `useSearchHistory` independent of where the history is persisted.
+ */
+export interface SearchHistoryAdapter {
+  /**
+   * Returns the persisted entries, most recent first.
+   */
+  read: () => string[]
+
+  /**
+   * Persists the entries, most recent first.
+   */
+  write: (entries: readonly string[]) => void
+
+  /**
+   * Calls the listener whenever the entries are changed elsewhere, e.g. in
+   * another tab. Returns a function that removes the listener.
+   */
+  subscribe?: (listener: () => void) => () => void
+}
+
+/**
+ * The parts of `Storage` that are used by {@link createWebStorageAdapter}.
+ */
+export type WebStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>
+
+type StorageListener = (
+  event: Pick<StorageEvent, 'key' | 'storageArea'>,
+) => void
+
+/**
+ * The parts of `window` that are used to listen for changes of the storage
+ * in other tabs.
+ */
+export interface StorageEventTarget {
+  addEventListener: (type: 'storage', listener: StorageListener) => void
+  removeEventListener: (type: 'storage', listener: StorageListener) => void
+}
+
+/**
+ * Creates an adapter that persists the entries as JSON in a `Storage`, e.g.
+ * `localStorage`. Entries that can't be read are ignored, and failing writes
+ * (e.g. if the quota is exceeded) keep the history in memory only.
+ */
+export function createWebStorageAdapter(
+  key: string,
+  storage: WebStorage,
+  target?: StorageEventTarget,
+): SearchHistoryAdapter {
+  return {
+    read() {
+      try {
+        const entries: unknown = JSON.parse(storage.getItem(key) ?? '[]')
+        return Array.isArray(entries)
+          ? entries.filter((entry) => typeof entry === 'string')
+          : []
+      } catch {
+        return []
+      }
+    },
+
+    write(entries) {
+      try {
+        if (entries.length) {
+          storage.setItem(key, JSON.stringify(entries))
+        } else {
+          storage.removeItem(key)
+        }
+      } catch {
+        // The entries are still kept in memory.
+      }
+    },
+
+    subscribe: target
+      ? (listener) => {
+          const onStorage: StorageListener = (event) => {
+            if (event.storageArea === storage && event.key === key) {
+              listener()
+            }
+          }
+
+          target.addEventListener('storage', onStorage)
+          return () => target.removeEventListener('storage', onStorage)
+        }
+      : undefined,
+  }
+}
+
+/**
+ * Creates an adapter for `localStorage`. Changes in other tabs update the
+ * history.
+ */
+export function createLocalStorageAdapter(
+  key = 'search-history',
+): SearchHistoryAdapter {
+  return createWebStorageAdapter(key, window.localStorage, window)
+}
+
+/**
+ * Creates an adapter for `sessionStorage`, so that the history is kept per
+ * tab and cleared when the tab is closed.
+ */
+export function createSessionStorageAdapter(
+  key = 'search-history',
+): SearchHistoryAdapter {
+  return createWebStorageAdapter(key, window.sessionStorage)
+}
+
+/**
+ * Creates an adapter that keeps the entries in memory, e.g. during SSR or in
+ * tests.
+ */
+export function createMemoryStorageAdapter(
+  entries: readonly string[] = [],
+): SearchHistoryAdapter {
+  let stored = [...entries]
+
+  return {
+    read: () => [...stored],
+    write(next) {
+      stored = [...next]
+    },
+  }
+}
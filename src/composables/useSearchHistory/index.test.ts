@@ -0,0 +1,205 @@
+import { describe, expect, it } from 'vitest'
+import { effectScope, nextTick, ref } from 'vue'
+import { delay } from '../../test/delay'
+import {
+  type StorageEventTarget,
+  type WebStorage,
+  createMemoryStorageAdapter,
+  createWebStorageAdapter,
+  useSearchHistory,
+} from './index'
+
+function enter() {
+  return { key: 'Enter' } as KeyboardEvent
+}
+
+/**
+ * Stand-in for `localStorage` along with a `window` that dispatches storage
+ * events.
+ */
+function createStorage(items: Record<string, string> = {}) {
+  const listeners = new Set<
+    Parameters<StorageEventTarget['addEventListener']>[1]
+  >()
+
+  const storage: WebStorage = {
+    getItem: (key) => items[key] ?? null,
+    setItem: (key, value) => {
+      items[key] = value
+    },
+    removeItem: (key) => {
+      delete items[key]
+    },
+  }
+
+  const target: StorageEventTarget = {
+    addEventListener: (_, listener) => listeners.add(listener),
+    removeEventListener: (_, listener) => listeners.delete(listener),
+  }
+
+  /**
+   * Changes an item like another tab would.
+   */
+  function change(key: string, value: string) {
+    items[key] = value
+    listeners.forEach((listener) =>
+      listener({ key, storageArea: storage as Storage }),
+    )
+  }
+
+  return { items, storage, target, change }
+}
+
+describe('useSearchHistory', () => {
+  it('records queries on Enter', () => {
+    const input = ref('')
+    const { entries, onKeydown } = useSearchHistory(input, {
+      adapter: createMemoryStorageAdapter(),
+    })
+
+    input.value = ' bob '
+    onKeydown(enter())
+    input.value = 'linda'
+    onKeydown(enter())
+    onKeydown({ key: 'a' } as KeyboardEvent)
+
+    expect(entries.value).toEqual(['linda', 'bob'])
+  })
+
+  it('de-duplicates and caps entries', () => {
+    const input = ref('')
+    const { entries, commit } = useSearchHistory(input, {
+      adapter: createMemoryStorageAdapter(),
+      max: 3,
+    })
+
+    for (const query of ['bob', 'linda', 'tina', 'Bob', 'gene']) {
+      commit(query)
+    }
+
+    expect(entries.value).toEqual(['gene', 'Bob', 'tina'])
+  })
+
+  it('ignores short queries', () => {
+    const input = ref('b')
+    const { entries, commit } = useSearchHistory(input, {
+      adapter: createMemoryStorageAdapter(),
+    })
+
+    commit()
+    commit('  ')
+
+    expect(entries.value).toEqual([])
+  })
+
+  it('records queries when the input is idle', async () => {
+    const input = ref('')
+    const { entries } = useSearchHistory(input, {
+      adapter: createMemoryStorageAdapter(),
+      idle: 10,
+    })
+
+    input.value = 'bo'
+    await nextTick()
+    await delay(20)
+    expect(entries.value).toEqual(['bo'])
+
+    // Continued typing replaces the query that was recorded while idle.
+    input.value = 'bob'
+    await nextTick()
+    await delay(20)
+    expect(entries.value).toEqual(['bob'])
+
+    input.value = 'linda'
+    await nextTick()
+    await delay(5)
+    input.value = 'tina'
+    await nextTick()
+    await delay(20)
+    expect(entries.value).toEqual(['tina', 'bob'])
+  })
+
+  it('suggests entries that contain the input', () => {
+    const input = ref('')
+    const { suggestions } = useSearchHistory(input, {
+      adapter: createMemoryStorageAdapter(['linda', 'tina', 'bob']),
+    })
+
+    expect(suggestions.value).toEqual(['linda', 'tina', 'bob'])
+
+    input.value = 'IN'
+    expect(suggestions.value).toEqual(['linda', 'tina'])
+
+    input.value = 'tina'
+    expect(suggestions.value).toEqual([])
+  })
+
+  it('removes entries', () => {
+    const adapter = createMemoryStorageAdapter(['linda', 'tina', 'bob'])
+    const { entries, remove, clear } = useSearchHistory(ref(''), { adapter })
+
+    remove('Tina')
+    expect(entries.value).toEqual(['linda', 'bob'])
+    expect(adapter.read()).toEqual(['linda', 'bob'])
+
+    clear()
+    expect(entries.value).toEqual([])
+    expect(adapter.read()).toEqual([])
+  })
+
+  it('persists entries in a storage', () => {
+    const { items, storage } = createStorage({ history: '["bob"]' })
+    const adapter = createWebStorageAdapter('history', storage)
+    const { entries, commit, clear } = useSearchHistory(ref(''), { adapter })
+
+    expect(entries.value).toEqual(['bob'])
+
+    commit('linda')
+    expect(items.history).toBe('["linda","bob"]')
+
+    clear()
+    expect(items).toEqual({})
+  })
+
+  it('ignores invalid stored entries', () => {
+    const { storage } = createStorage({
+      a: '{',
+      b: '{"bob":1}',
+      c: '["bob",1]',
+    })
+
+    expect(createWebStorageAdapter('a', storage).read()).toEqual([])
+    expect(createWebStorageAdapter('b', storage).read()).toEqual([])
+    expect(createWebStorageAdapter('c', storage).read()).toEqual(['bob'])
+  })
+
+  it('keeps entries in memory if the storage fails', () => {
+    const adapter = createWebStorageAdapter('history', {
+      getItem: () => null,
+      setItem: () => {
+        throw new Error('QuotaExceededError')
+      },
+      removeItem: () => {},
+    })
+    const { entries, commit } = useSearchHistory(ref(''), { adapter })
+
+    commit('bob')
+    expect(entries.value).toEqual(['bob'])
+  })
+
+  it('updates on changes in other tabs', () => {
+    const { storage, target, change } = createStorage()
+    const adapter = createWebStorageAdapter('history', storage, target)
+
+    const scope = effectScope()
+    const { entries } = scope.run(() => useSearchHistory(ref(''), { adapter }))!
+
+    change('other', '["tina"]')
+    change('history', '["linda"]')
+    expect(entries.value).toEqual(['linda'])
+
+    scope.stop()
+    change('history', '["bob"]')
+    expect(entries.value).toEqual(['linda'])
+  })
+})
@@ -0,0 +1,218 @@
+import { type Ref, computed, shallowRef, watch } from 'vue'
+import {
+  type MaybeRefOrGetter,
+  toRef,
+  toValue,
+  tryOnScopeDispose,
+} from '@vueuse/core'
+import { applyDefaults } from '../../shared'
+import { useVueUIConfig } from '../../plugin'
+import {
+  type SearchHistoryAdapter,
+  createLocalStorageAdapter,
+  createMemoryStorageAdapter,
+} from './adapters'
+
+export * from './adapters'
+
+/**
+ * Defines configuration options for the `useSearchHistory` composable.
+ */
+export interface UseSearchHistoryOptions {
+  /**
+   * Adapter that persists the history. Defaults to an adapter for
+   * `localStorage`, or to an in-memory adapter if `window` is unavailable
+   * (e.g. during SSR).
+   */
+  adapter?: SearchHistoryAdapter
+
+  /**
+   * Maximum number of entries. Older entries are dropped.
+   *
+   * @default 10
+   */
+  max?: number
+
+  /**
+   * Minimum length of a query to be recorded.
+   *
+   * @default 2
+   */
+  minLength?: number
+
+  /**
+   * Number of milliseconds after the last change of the input until the
+   * query is recorded. `0` only records queries on Enter or `commit`.
+   *
+   * @default 2000
+   */
+  idle?: MaybeRefOrGetter<number>
+}
+
+/**
+ * Records the queries of a search input, e.g. the `input` of `useSearch`, so
+ * that recent searches can be suggested. Queries are recorded on Enter (bind
+ * `onKeydown` to the input), after the input is idle, or by calling `commit`.
+ *
+ * Entries are de-duplicated ignoring case, most recent first. If a query was
+ * recorded while idle and the user then continues typing, the new query
+ * replaces it.
+ *
+ * @example
+ * ```ts
+ * const { input, result } = useSearch(people, ['name'])
+ * const { suggestions, onKeydown, remove } = useSearchHistory(input, {
+ *   adapter: createLocalStorageAdapter('people-search'),
+ * })
+ * ```
+ */
+export function useSearchHistory(
+  input: Ref<string>,
+  options?: UseSearchHistoryOptions,
+) {
+  options = applyDefaults(options, useVueUIConfig().searchHistory)
+
+  const adapter = options?.adapter ?? defaultAdapter()
+  const max = options?.max ?? 10
+  const minLength = options?.minLength ?? 2
+  const idle = toRef(options?.idle ?? 2000)
+
+  /**
+   * Recorded queries, most recent first.
+   */
+  const entries = shallowRef<readonly string[]>(adapter.read().slice(0, max))
+
+  /**
+   * Entries that contain the input, excluding the input itself. All entries
+   * if the input is empty.
+   */
+  const suggestions = computed(() => {
+    const query = normalize(input.value)
+    if (!query) {
+      return entries.value
+    }
+
+    return entries.value.filter((entry) => {
+      const normalized = normalize(entry)
+      return normalized !== query && normalized.includes(query)
+    })
+  })
+
+  /**
+   * Entry that was recorded while the input was idle, and that is replaced
+   * if the user continues typing.
+   */
+  let idleEntry: string | null = null
+
+  let timeout: ReturnType<typeof setTimeout> | undefined
+
+  function clearTimer() {
+    if (timeout !== undefined) {
+      clearTimeout(timeout)
+      timeout = undefined
+    }
+  }
+
+  function record(query: string) {
+    clearTimer()
+
+    const entry = query.trim()
+    if (entry.length < Math.max(1, minLength)) {
+      return null
+    }
+
+    const normalized = normalize(entry)
+    const replaced = idleEntry !== null && normalized.startsWith(idleEntry)
+
+    update(
+      [
+        entry,
+        ...entries.value.filter((existing) => {
+          const other = normalize(existing)
+          return other !== normalized && !(replaced && other === idleEntry)
+        }),
+      ].slice(0, max),
+    )
+    return normalized
+  }
+
+  /**
+   * Records the query. Defaults to the current input.
+   */
+  function commit(query = input.value) {
+    record(query)
+    idleEntry = null
+  }
+
+  /**
+   * Removes an entry, ignoring case.
+   */
+  function remove(entry: string) {
+    const normalized = normalize(entry)
+    update(
+      entries.value.filter((existing) => normalize(existing) !== normalized),
+    )
+  }
+
+  /**
+   * Removes all entries.
+   */
+  function clear() {
+    clearTimer()
+    idleEntry = null
+    update([])
+  }
+
+  /**
+   * Records the input on Enter.
+   */
+  function onKeydown(event: KeyboardEvent) {
+    if (event.key === 'Enter') {
+      commit()
+    }
+  }
+
+  function update(next: readonly string[]) {
+    entries.value = next
+    adapter.write(next)
+  }
+
+  watch(input, () => {
+    clearTimer()
+
+    const delay = toValue(idle)
+    if (delay > 0) {
+      timeout = setTimeout(() => {
+        idleEntry = record(input.value) ?? idleEntry
+      }, delay)
+    }
+  })
+
+  const unsubscribe = adapter.subscribe?.(() => {
+    entries.value = adapter.read().slice(0, max)
+  })
+
+  tryOnScopeDispose(() => {
+    clearTimer()
+    unsubscribe?.()
+  })
+
+  return {
+    entries,
+    suggestions,
+    commit,
+    remove,
+    clear,
+    onKeydown,
+  }
+}
+
+function normalize(query: string) {
+  return query.trim().toLocaleLowerCase()
+}
+
+function defaultAdapter() {
+  return typeof window !== 'undefined' && window.localStorage
+    ? createLocalStorageAdapter()
+    : createMemoryStorageAdapter()
+}
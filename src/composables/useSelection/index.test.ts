@@ -0,0 +1,181 @@
+import { describe, expect, it } from 'vitest'
+import { nextTick, ref } from 'vue'
+import { useSearch } from '../useSearch'
+import { useSelection } from './index'
+
+interface Person {
+  id: number
+  name: string
+}
+
+const people: Person[] = [
+  { id: 1, name: 'Bob' },
+  { id: 2, name: 'Linda' },
+  { id: 3, name: 'Tina' },
+  { id: 4, name: 'Gene' },
+  { id: 5, name: 'Louise' },
+]
+
+function names(items: readonly Person[]) {
+  return items.map((person) => person.name)
+}
+
+describe('useSelection', () => {
+  it('selects and deselects items', () => {
+    const { selected, count, isSelected, select, deselect, toggle } =
+      useSelection(people, (person) => person.id)
+
+    select(people[2])
+    select(people[0])
+    toggle(people[3])
+    expect(names(selected.value)).toEqual(['Bob', 'Tina', 'Gene'])
+    expect(count.value).toBe(3)
+
+    deselect(people[0])
+    toggle(people[3])
+    expect(names(selected.value)).toEqual(['Tina'])
+    expect(isSelected(people[2])).toBe(true)
+    expect(isSelected(people[3])).toBe(false)
+  })
+
+  it('replaces the selection in single-select mode', () => {
+    const { selected, select, selectAll } = useSelection(
+      people,
+      (person) => person.id,
+      { multiple: false },
+    )
+
+    select(people[0])
+    select(people[1], { range: true })
+    selectAll()
+
+    expect(names(selected.value)).toEqual(['Linda'])
+  })
+
+  it('selects ranges from the anchor', () => {
+    const { selected, toggle } = useSelection(people, (person) => person.id)
+
+    toggle(people[1])
+    toggle(people[3], { range: true })
+    expect(names(selected.value)).toEqual(['Linda', 'Tina', 'Gene'])
+
+    // The anchor stays, so the range can be changed in both directions.
+    toggle(people[0], { range: true })
+    expect(names(selected.value)).toEqual(['Bob', 'Linda', 'Tina', 'Gene'])
+  })
+
+  it('deselects ranges if the anchor is deselected', () => {
+    const { selected, selectAll, toggle } = useSelection(
+      people,
+      (person) => person.id,
+    )
+
+    selectAll()
+    toggle(people[1])
+    toggle(people[3], { range: true })
+
+    expect(names(selected.value)).toEqual(['Bob', 'Louise'])
+  })
+
+  it('toggles a single item without an anchor', () => {
+    const { selected, toggle } = useSelection(people, (person) => person.id)
+
+    toggle(people[2], { range: true })
+    expect(names(selected.value)).toEqual(['Tina'])
+  })
+
+  it('selects all visible or all items', async () => {
+    const search = useSearch(people, ['name'])
+    const { selected, allSelected, someSelected, selectAll, deselectAll } =
+      useSelection(people, (person) => person.id, { visible: search.result })
+
+    search.input.value = 'in'
+    await nextTick()
+    selectAll()
+    expect(names(selected.value)).toEqual(['Linda', 'Tina'])
+    expect(allSelected.value).toBe(true)
+
+    search.input.value = ''
+    await nextTick()
+    expect(allSelected.value).toBe(false)
+    expect(someSelected.value).toBe(true)
+
+    selectAll('all')
+    expect(selected.value).toHaveLength(5)
+
+    search.input.value = 'bob'
+    await nextTick()
+    deselectAll()
+    expect(names(selected.value)).toEqual(['Linda', 'Tina', 'Gene', 'Louise'])
+
+    deselectAll('all')
+    expect(selected.value).toEqual([])
+  })
+
+  it('reports hidden selected items', async () => {
+    const search = useSearch(people, ['name'])
+    const { hidden, hiddenCount, select } = useSelection(
+      people,
+      (person) => person.id,
+      { visible: search.result },
+    )
+
+    select(people[0])
+    select(people[1])
+    search.input.value = 'linda'
+    await nextTick()
+
+    expect(names(hidden.value)).toEqual(['Bob'])
+    expect(hiddenCount.value).toBe(1)
+  })
+
+  it('ranges over visible items only', async () => {
+    const search = useSearch(people, ['name'])
+    const { selected, toggle } = useSelection(people, (person) => person.id, {
+      visible: search.result,
+    })
+
+    search.input.value = 'i'
+    await nextTick()
+    toggle(people[1])
+    toggle(people[4], { range: true })
+
+    expect(names(selected.value)).toEqual(['Linda', 'Tina', 'Louise'])
+  })
+
+  it('keeps the selection when items are reordered or replaced', async () => {
+    const list = ref([...people])
+    const { selected, select, selectedKeys } = useSelection(
+      list,
+      (person) => person.id,
+      { selected: [2] },
+    )
+
+    select(list.value[3])
+    list.value = list.value
+      .map((person) => ({ ...person, name: person.name.toUpperCase() }))
+      .reverse()
+    await nextTick()
+
+    expect(names(selected.value)).toEqual(['GENE', 'LINDA'])
+
+    list.value = list.value.filter((person) => person.id !== 4)
+    await nextTick()
+
+    expect([...selectedKeys.value]).toEqual([2])
+  })
+
+  it('clears the selection', () => {
+    const { selected, selectAll, clear, toggle } = useSelection(
+      people,
+      (person) => person.id,
+    )
+
+    toggle(people[0])
+    selectAll()
+    clear()
+    toggle(people[3], { range: true })
+
+    expect(names(selected.value)).toEqual(['Gene'])
+  })
+})
@@ -0,0 +1,264 @@
+import { computed, shallowRef, watch } from 'vue'
+import { type MaybeRefOrGetter, toValue } from '@vueuse/core'
+
+/**
+ * Defines configuration options for the `useSelection` composable.
+ */
+export interface UseSelectionOptions<T, K> {
+  /**
+   * Allows selecting multiple items. Selecting an item in single-select mode
+   * replaces the selected item.
+   *
+   * @default true
+   */
+  multiple?: boolean
+
+  /**
+   * Items that are currently visible, e.g. the `result` of `useSearch`. Range
+   * selection and `selectAll` operate on these items, and selected items that
+   * are not visible are reported as hidden.
+   *
+   * @default list
+   */
+  visible?: MaybeRefOrGetter<readonly T[]>
+
+  /**
+   * Keys of the initially selected items.
+   */
+  selected?: Iterable<K>
+}
+
+/**
+ * Options for selecting an item.
+ */
+export interface SelectOptions {
+  /**
+   * Applies to all visible items between the anchor, i.e. the item that was
+   * selected or deselected last without `range`, and the item (e.g. on
+   * shift-click).
+   */
+  range?: boolean
+}
+
+/**
+ * Which items `selectAll` and `deselectAll` apply to: the visible items, or
+ * all items of the list.
+ */
+export type SelectionScope = 'visible' | 'all'
+
+/**
+ * Tracks the selected items of a list by key, e.g. for bulk actions on a
+ * table. Because items are identified by key, the selection survives
+ * reordering and replacing items. Keys that are no longer in the list are
+ * removed from the selection.
+ *
+ * @example
+ * ```ts
+ * const { result } = useSearch(users, ['name'])
+ * const { selected, toggle, selectAll, hiddenCount } = useSelection(
+ *   users,
+ *   (user) => user.id,
+ *   { visible: result },
+ * )
+ *
+ * // On click:
+ * toggle(user, { range: event.shiftKey })
+ * ```
+ */
+export function useSelection<T, K = unknown>(
+  list: MaybeRefOrGetter<readonly T[]>,
+  key: (item: T) => K,
+  options?: UseSelectionOptions<T, K>,
+) {
+  const multiple = options?.multiple ?? true
+  const visible = options?.visible ?? list
+
+  /**
+   * Keys of the selected items. Replaced on every change.
+   */
+  const selectedKeys = shallowRef<ReadonlySet<K>>(
+    new Set(options?.selected ?? []),
+  )
+
+  /**
+   * Key of the item that range selections start from.
+   */
+  const anchor = shallowRef<K | null>(null)
+
+  const keys = computed(() => new Set(toValue(list).map(key)))
+  const visibleKeys = computed(() => new Set(toValue(visible).map(key)))
+
+  /**
+   * Selected items, in list order.
+   */
+  const selected = computed(() =>
+    toValue(list).filter((item) => selectedKeys.value.has(key(item))),
+  )
+
+  /**
+   * Number of selected items.
+   */
+  const count = computed(() => selected.value.length)
+
+  /**
+   * Selected items that are not visible, e.g. because they are filtered out by
+   * a search.
+   */
+  const hidden = computed(() =>
+    selected.value.filter((item) => !visibleKeys.value.has(key(item))),
+  )
+
+  /**
+   * Number of selected items that are not visible.
+   */
+  const hiddenCount = computed(() => hidden.value.length)
+
+  /**
+   * Whether all visible items are selected. Is `false` if no items are
+   * visible.
+   */
+  const allSelected = computed(
+    () =>
+      visibleKeys.value.size > 0 &&
+      [...visibleKeys.value].every((key) => selectedKeys.value.has(key)),
+  )
+
+  /**
+   * Whether some, but not all visible items are selected, e.g. for an
+   * indeterminate checkbox.
+   */
+  const someSelected = computed(
+    () =>
+      !allSelected.value &&
+      [...visibleKeys.value].some((key) => selectedKeys.value.has(key)),
+  )
+
+  watch(keys, (keys) => {
+    const kept = [...selectedKeys.value].filter((key) => keys.has(key))
+    if (kept.length !== selectedKeys.value.size) {
+      selectedKeys.value = new Set(kept)
+    }
+    if (anchor.value !== null && !keys.has(anchor.value)) {
+      anchor.value = null
+    }
+  })
+
+  function update(change: (keys: Set<K>) => void) {
+    const next = new Set(selectedKeys.value)
+    change(next)
+    selectedKeys.value = next
+  }
+
+  function isSelected(item: T) {
+    return selectedKeys.value.has(key(item))
+  }
+
+  /**
+   * Returns the keys of the visible items between the anchor and the item,
+   * or `null` if there is no range selection.
+   */
+  function rangeTo(item: T, options?: SelectOptions) {
+    if (!multiple || !options?.range || anchor.value === null) {
+      return null
+    }
+
+    const items = toValue(visible).map(key)
+    const from = items.indexOf(anchor.value)
+    const to = items.indexOf(key(item))
+    if (from < 0 || to < 0) {
+      return null
+    }
+    return items.slice(Math.min(from, to), Math.max(from, to) + 1)
+  }
+
+  function select(item: T, options?: SelectOptions) {
+    const range = rangeTo(item, options)
+    if (range) {
+      update((keys) => range.forEach((key) => keys.add(key)))
+      return
+    }
+
+    update((keys) => {
+      if (!multiple) {
+        keys.clear()
+      }
+      keys.add(key(item))
+    })
+    anchor.value = key(item)
+  }
+
+  function deselect(item: T, options?: SelectOptions) {
+    const range = rangeTo(item, options)
+    if (range) {
+      update((keys) => range.forEach((key) => keys.delete(key)))
+      return
+    }
+
+    update((keys) => keys.delete(key(item)))
+    anchor.value = key(item)
+  }
+
+  /**
+   * Toggles the selection of the item. With `range`, the visible items
+   * between the anchor and the item are selected if the anchor is selected,
+   * and deselected otherwise.
+   */
+  function toggle(item: T, options?: SelectOptions) {
+    const range = rangeTo(item, options)
+    const state = range
+      ? selectedKeys.value.has(anchor.value as K)
+      : !isSelected(item)
+
+    if (state) {
+      select(item, options)
+    } else {
+      deselect(item, options)
+    }
+  }
+
+  /**
+   * Selects the visible items, or all items of the list with `all`, e.g. to
+   * "select all matching" after a search. Does nothing in single-select mode.
+   */
+  function selectAll(scope: SelectionScope = 'visible') {
+    if (!multiple) {
+      return
+    }
+
+    const items = scope === 'all' ? keys.value : visibleKeys.value
+    update((keys) => items.forEach((key) => keys.add(key)))
+  }
+
+  /**
+   * Deselects the visible items, or all items of the list with `all`.
+   */
+  function deselectAll(scope: SelectionScope = 'visible') {
+    const items = scope === 'all' ? keys.value : visibleKeys.value
+    update((keys) => items.forEach((key) => keys.delete(key)))
+  }
+
+  /**
+   * Deselects all items, including hidden ones, and resets the anchor.
+   */
+  function clear() {
+    selectedKeys.value = new Set()
+    anchor.value = null
+  }
+
+  return {
+    selectedKeys,
+    selected,
+    count,
+    hidden,
+    hiddenCount,
+    allSelected,
+    someSelected,
+    isSelected,
+    select,
+    deselect,
+    toggle,
+    selectAll,
+    deselectAll,
+    clear,
+  }
+}
@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest'
+import { ref } from 'vue'
+import { useSort } from './index'
+
+const people = [
+  { name: 'Bob', age: 46, address: { city: 'Ocean City' } },
+  { name: 'linda', age: 44, address: { city: 'Ocean City' } },
+  { name: 'Tina', age: 13 },
+  { name: 'Gene', age: 11, address: { city: 'Seymour' } },
+  { name: 'Louise', age: 9, address: { city: 'Ocean City' } },
+] as { name: string; age: number; address?: { city: string } }[]
+
+function names(items: readonly { name: string }[]) {
+  return items.map((item) => item.name)
+}
+
+describe('useSort', () => {
+  it('returns the list unsorted without rules', () => {
+    const { result } = useSort(people)
+    expect(result.value).toEqual(people)
+  })
+
+  it('sorts by a field', () => {
+    const { result, sortBy } = useSort(people)
+
+    sortBy('age')
+    expect(names(result.value)).toEqual([
+      'Louise',
+      'Gene',
+      'Tina',
+      'linda',
+      'Bob',
+    ])
+
+    sortBy('name', 'desc')
+    expect(names(result.value)).toEqual([
+      'Tina',
+      'Louise',
+      'linda',
+      'Gene',
+      'Bob',
+    ])
+  })
+
+  it('does not modify the list', () => {
+    const list = [...people]
+    const { result } = useSort(list, {
+      initial: { key: 'age', direction: 'asc' },
+    })
+
+    expect(result.value).not.toBe(list)
+    expect(list).toEqual(people)
+  })
+
+  it('sorts by multiple columns', () => {
+    const { result } = useSort(people, {
+      initial: [
+        { key: 'address.city', direction: 'asc' },
+        { key: 'age', direction: 'desc' },
+      ],
+    })
+
+    // Missing values are sorted last.
+    expect(names(result.value)).toEqual([
+      'Bob',
+      'linda',
+      'Louise',
+      'Gene',
+      'Tina',
+    ])
+  })
+
+  it('uses custom comparators', () => {
+    const { result, sortBy } = useSort(people, {
+      comparators: {
+        nameLength: (a, b) => a.name.length - b.name.length,
+        age: (a, b) => (a.age % 10) - (b.age % 10),
+      },
+    })
+
+    sortBy('nameLength')
+    expect(names(result.value)).toEqual([
+      'Bob',
+      'Tina',
+      'Gene',
+      'linda',
+      'Louise',
+    ])
+
+    sortBy('age')
+    expect(names(result.value)).toEqual([
+      'Gene',
+      'Tina',
+      'linda',
+      'Bob',
+      'Louise',
+    ])
+  })
+
+  it('cycles the direction when toggled', () => {
+    const { sort, toggle, directionOf } = useSort(people)
+
+    toggle('age')
+    expect(directionOf('age')).toBe('asc')
+
+    toggle('age')
+    expect(directionOf('age')).toBe('desc')
+
+    toggle('age')
+    expect(directionOf('age')).toBeNull()
+    expect(sort.value).toEqual([])
+  })
+
+  it('appends rules when toggled with append', () => {
+    const { sort, toggle } = useSort(people)
+
+    toggle('address.city')
+    toggle('age', { append: true })
+    toggle('age', { append: true })
+    expect(sort.value).toEqual([
+      { key: 'address.city', direction: 'asc' },
+      { key: 'age', direction: 'desc' },
+    ])
+
+    toggle('age', { append: true })
+    expect(sort.value).toEqual([{ key: 'address.city', direction: 'asc' }])
+
+    toggle('name')
+    expect(sort.value).toEqual([{ key: 'name', direction: 'asc' }])
+  })
+
+  it('replaces rules if multiple is disabled', () => {
+    const { sort, toggle } = useSort(people, { multiple: false })
+
+    toggle('name')
+    toggle('age', { append: true })
+
+    expect(sort.value).toEqual([{ key: 'age', direction: 'asc' }])
+  })
+
+  it('compares strings using the locale', () => {
+    const items = ['b', 'a', 'B', 'item 10', 'item 9'].map((name) => ({ name }))
+    const { result } = useSort(items, {
+      initial: { key: 'name', direction: 'asc' },
+      locale: 'en',
+    })
+
+    expect(names(result.value)).toEqual(['a', 'b', 'B', 'item 9', 'item 10'])
+  })
+
+  it('updates when the list changes', () => {
+    const list = ref([{ name: 'b' }, { name: 'a' }])
+    const { result } = useSort(list, {
+      initial: { key: 'name', direction: 'asc' },
+    })
+
+    list.value = [...list.value, { name: 'c' }, { name: '0' }]
+    expect(names(result.value)).toEqual(['0', 'a', 'b', 'c'])
+  })
+
+  it('only allows sortable fields', () => {
+    // @ts-expect-error objects are not sortable
+    useSort(people, { initial: { key: 'address', direction: 'asc' } })
+
+    const { toggle } = useSort(people, {
+      comparators: { custom: () => 0 },
+    })
+    toggle('custom')
+    toggle('address.city')
+    // @ts-expect-error unknown column
+    toggle('unknown')
+  })
+})
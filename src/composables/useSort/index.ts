@@ -0,0 +1,244 @@
+import { type Ref, computed, ref } from 'vue'
+import { type MaybeRefOrGetter, toValue } from '@vueuse/core'
+import {
+  type MaybeArray,
+  type StringOf,
+  applyDefaults,
+  forceArray,
+} from '../../shared'
+import { useVueUIConfig } from '../../plugin'
+import { type LeafPath, getPathValues, parsePath } from '../useSearch/paths'
+
+/**
+ * Values that can be sorted without a custom comparator.
+ */
+export type SortableValue = string | number | boolean | Date
+
+/**
+ * A field of {@link T} that can be sorted by. Can be a dot-path like the
+ * fields of `useSearch`.
+ */
+export type SortField<T> = StringOf<LeafPath<T, SortableValue>>
+
+/**
+ * Compares two items, like the compare function of `Array.prototype.sort`.
+ * Items are always compared in ascending order, descending order reverses the
+ * result.
+ */
+export type Comparator<T> = (a: T, b: T) => number
+
+export type SortDirection = 'asc' | 'desc'
+
+/**
+ * Sorts the items by the given key.
+ */
+export interface SortRule<K extends string = string> {
+  key: K
+  direction: SortDirection
+}
+
+/**
+ * Prevents inference of {@link T} from the position it is used in. Like the
+ * built-in `NoInfer`, which requires TypeScript 5.4.
+ */
+type NoInference<T> = [T][T extends any ? 0 : never]
+
+/**
+ * Defines configuration options for the `useSort` composable.
+ */
+export interface UseSortOptions<T, C extends string = never> {
+  /**
+   * Custom comparators, keyed by the name of the column they sort. A
+   * comparator for a {@link SortField} replaces the default comparison of the
+   * field.
+   */
+  comparators?: Record<C, Comparator<T>>
+
+  /**
+   * Initial sort rules. The first rule has the highest priority.
+   */
+  initial?: MaybeArray<SortRule<SortField<T> | NoInference<C>>>
+
+  /**
+   * Allows sorting by multiple columns.
+   *
+   * @default true
+   */
+  multiple?: boolean
+
+  /**
+   * Locale used to compare strings.
+   */
+  locale?: MaybeRefOrGetter<string | undefined>
+}
+
+/**
+ * Sorts a list of items by one or more columns. Columns are either fields of
+ * the items, or custom comparators.
+ *
+ * @example
+ * ```ts
+ * const { result } = useSearch(people, ['name'])
+ * const { result: sorted, toggle } = useSort(result, {
+ *   comparators: { fullName: (a, b) => fullName(a).localeCompare(fullName(b)) },
+ *   initial: { key: 'address.city', direction: 'asc' },
+ * })
+ *
+ * // Sorts by age, then by city.
+ * toggle('age', { append: true })
+ * ```
+ */
+export function useSort<T, C extends string = never>(
+  list: MaybeRefOrGetter<readonly T[]>,
+  options?: UseSortOptions<T, C>,
+) {
+  options = applyDefaults(options, useVueUIConfig().sort)
+
+  type Key = SortField<T> | C
+
+  const multiple = options?.multiple ?? true
+
+  /**
+   * Current sort rules. The first rule has the highest priority.
+   */
+  const sort = ref(options?.initial ? forceArray(options.initial) : []) as Ref<
+    SortRule<Key>[]
+  >
+
+  const collator = computed(
+    () => new Intl.Collator(toValue(options?.locale), { numeric: true }),
+  )
+
+  const customComparators: Partial<Record<string, Comparator<T>>> =
+    options?.comparators ?? {}
+  const comparators = new Map<string, Comparator<T>>()
+
+  function comparator(key: string): Comparator<T> {
+    const custom = customComparators[key]
+    if (custom) {
+      return custom
+    }
+
+    let compare = comparators.get(key)
+    if (!compare) {
+      const path = parsePath(key)
+      compare = (a, b) =>
+        compareValues(
+          getPathValues(a, path)[0],
+          getPathValues(b, path)[0],
+          collator.value,
+        )
+      comparators.set(key, compare)
+    }
+    return compare
+  }
+
+  /**
+   * The sorted items. The list itself is not modified.
+   */
+  const result = computed(() => {
+    const items = [...toValue(list)]
+    const rules = sort.value.map(({ key, direction }) => ({
+      compare: comparator(key),
+      factor: direction === 'desc' ? -1 : 1,
+    }))
+
+    if (!rules.length) {
+      return items
+    }
+
+    return items.sort((a, b) => {
+      for (const { compare, factor } of rules) {
+        const result = compare(a, b)
+        if (result) {
+          return result * factor
+        }
+      }
+      return 0
+    })
+  })
+
+  /**
+   * Returns the sort direction of the key, or `null` if the items are not
+   * sorted by the key.
+   */
+  function directionOf(key: Key): SortDirection | null {
+    return sort.value.find((rule) => rule.key === key)?.direction ?? null
+  }
+
+  /**
+   * Sorts by the key. With `append`, the key is added to (or updated in) the
+   * current rules, otherwise it replaces them.
+   */
+  function sortBy(
+    key: Key,
+    direction: SortDirection = 'asc',
+    { append = false }: { append?: boolean } = {},
+  ) {
+    const rule = { key, direction }
+
+    if (!append || !multiple) {
+      sort.value = [rule]
+      return
+    }
+
+    const index = sort.value.findIndex((rule) => rule.key === key)
+    sort.value =
+      index >= 0
+        ? sort.value.map((current, i) => (i === index ? rule : current))
+        : [...sort.value, rule]
+  }
+
+  /**
+   * Cycles the sort direction of the key from ascending to descending to not
+   * sorted, e.g. when a column header is clicked. With `append`, the other
+   * rules are kept.
+   */
+  function toggle(key: Key, { append = false }: { append?: boolean } = {}) {
+    const direction = directionOf(key)
+
+    if (direction === 'desc') {
+      sort.value =
+        append && multiple ? sort.value.filter((rule) => rule.key !== key) : []
+      return
+    }
+
+    sortBy(key, direction === 'asc' ? 'desc' : 'asc', { append })
+  }
+
+  /**
+   * Removes all sort rules.
+   */
+  function clear() {
+    sort.value = []
+  }
+
+  return {
+    result,
+    sort,
+    directionOf,
+    sortBy,
+    toggle,
+    clear,
+  }
+}
+
+/**
+ * Compares two values in ascending order. Missing values are sorted after
+ * all other values.
+ */
+function compareValues(a: unknown, b: unknown, collator: Intl.Collator) {
+  const aMissing = a === null || a === undefined
+  const bMissing = b === null || b === undefined
+  if (aMissing || bMissing) {
+    return Number(aMissing) - Number(bMissing)
+  }
+
+  if (typeof a === 'string' && typeof b === 'string') {
+    return collator.compare(a, b)
+  }
+
+  const aValue = a instanceof Date ? a.getTime() : Number(a)
+  const bValue = b instanceof Date ? b.getTime() : Number(b)
+  return aValue - bValue
+}
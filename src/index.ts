@@ -1,2 +1,16 @@
 export * from './composables/useAction'
 export * from './composables/useSearch'
+export * from './composables/useSearchHistory'
+export * from './composables/useRemoteSearch'
+export * from './composables/useFacets'
+export * from './composables/useSort'
+export * from './composables/usePagination'
+export * from './composables/useQueryState'
+export * from './composables/useCombobox'
+export * from './composables/useSelection'
+export * from './composables/useQuery'
+export * from './composables/usePolling'
+export * from './composables/useForm'
+export * from './components/SearchHighlight'
+export * from './components/VueUIConfigProvider'
+export * from './plugin'
@@ -0,0 +1,216 @@
+import { describe, expect, it, vi } from 'vitest'
+import { type Component, createSSRApp, defineComponent, h } from 'vue'
+import { renderToString } from 'vue/server-renderer'
+import {
+  createActionRegistry,
+  createUseAction,
+  useAction,
+  useActionRegistry,
+} from '../composables/useAction'
+import { usePagination } from '../composables/usePagination'
+import { useSearch } from '../composables/useSearch'
+import { VueUIConfigProvider } from '../components/VueUIConfigProvider'
+import {
+  type VueUIConfig,
+  createVueUI,
+  provideVueUIConfig,
+  useVueUIConfig,
+} from './index'
+
+const people = ['Bob', 'Linda', 'Tina']
+
+/**
+ * Renders the component in an app with the plugin installed.
+ */
+async function render(component: Component, config?: VueUIConfig) {
+  const app = createSSRApp(component)
+  if (config) {
+    app.use(createVueUI(config))
+  }
+  return renderToString(app)
+}
+
+/**
+ * Component that calls the composable in `setup` and passes the result to
+ * `capture`.
+ */
+function probe<T>(composable: () => T, capture: (result: T) => void) {
+  return defineComponent({
+    setup() {
+      capture(composable())
+      return () => null
+    },
+  })
+}
+
+describe('createVueUI', () => {
+  it('provides defaults to useSearch', async () => {
+    let result: readonly string[] = []
+    let overridden: readonly string[] = []
+
+    await render(
+      {
+        setup() {
+          const search = useSearch(people, (name) => name, { input: 'bob' })
+          const override = useSearch(people, (name) => name, {
+            input: 'bob',
+            caseSensitive: false,
+          })
+          result = search.result.value
+          overridden = override.result.value
+          return () => null
+        },
+      },
+      { search: { caseSensitive: true } },
+    )
+
+    expect(result).toEqual([])
+    expect(overridden).toEqual(['Bob'])
+  })
+
+  it('provides defaults to useAction', async () => {
+    const calls: string[] = []
+    const useBaseAction = createUseAction({
+      onError: () => calls.push('base'),
+    })
+
+    let run: () => Promise<unknown> = async () => {}
+    let error: () => unknown = () => null
+
+    await render(
+      probe(
+        () =>
+          useBaseAction(
+            () => {
+              throw new Error('failed')
+            },
+            { onError: () => calls.push('action') },
+          ),
+        ([r, state]) => {
+          run = r
+          error = () => state.error.value
+        },
+      ),
+      {
+        action: {
+          parseError: (error) => `parsed: ${error.message}`,
+          onError: () => calls.push('config'),
+        },
+      },
+    )
+
+    await run()
+    expect(error()).toBe('parsed: failed')
+    expect(calls).toEqual(['config', 'base', 'action'])
+  })
+
+  it('gives the base options precedence over the config', async () => {
+    const useBaseAction = createUseAction({ parseError: () => 'base' })
+    let run: () => Promise<unknown> = async () => {}
+    let error: () => unknown = () => null
+
+    await render(
+      probe(
+        () =>
+          useBaseAction(() => {
+            throw new Error('failed')
+          }),
+        ([r, state]) => {
+          run = r
+          error = () => state.error.value
+        },
+      ),
+      { action: { parseError: () => 'config' } },
+    )
+
+    await run()
+    expect(error()).toBe('base')
+  })
+
+  it('provides the action registry', async () => {
+    const registry = createActionRegistry()
+    const listener = vi.fn()
+    registry.subscribe(listener)
+    let injected: unknown = null
+
+    await render(
+      probe(
+        () => {
+          injected = useActionRegistry()
+          return useAction(async () => {}, { name: 'save' })
+        },
+        ([run]) => run(),
+      ),
+      { action: { registry } },
+    )
+
+    expect(injected).toBe(registry)
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'start' }),
+    )
+  })
+
+  it('keeps working outside of components', async () => {
+    const [run, { error }] = useAction(() => {
+      throw new Error('failed')
+    })
+
+    await run()
+    expect(error.value).toBe('failed')
+    expect(useVueUIConfig()).toEqual({})
+  })
+})
+
+describe('provideVueUIConfig', () => {
+  it('overrides the config for descendants', async () => {
+    const capture = vi.fn()
+    const Child = probe(useVueUIConfig, capture)
+
+    await render(
+      {
+        setup() {
+          provideVueUIConfig({ search: { trim: false } })
+          capture(useVueUIConfig())
+          return () => h(Child)
+        },
+      },
+      { search: { caseSensitive: true }, pagination: { pageSize: 50 } },
+    )
+
+    expect(capture).toHaveBeenNthCalledWith(1, {
+      search: { caseSensitive: true },
+      pagination: { pageSize: 50 },
+    })
+    expect(capture).toHaveBeenNthCalledWith(2, {
+      search: { caseSensitive: true, trim: false },
+      pagination: { pageSize: 50 },
+    })
+  })
+})
+
+describe('<VueUIConfigProvider>', () => {
+  it('overrides the config of its slot', async () => {
+    const items = Array.from({ length: 30 }, (_, i) => i)
+    const pageSizes: number[] = []
+    const Child = probe(
+      () => usePagination(items),
+      ({ pageSize }) => pageSizes.push(pageSize.value),
+    )
+
+    await render(
+      {
+        render: () => [
+          h(Child),
+          h(
+            VueUIConfigProvider,
+            { config: { pagination: { pageSize: 10 } } },
+            { default: () => h(Child) },
+          ),
+        ],
+      },
+      { pagination: { pageSize: 25 } },
+    )
+
+    expect(pageSizes).toEqual([25, 10])
+  })
+})
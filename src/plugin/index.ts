@@ -0,0 +1,178 @@
+import {
+  type InjectionKey,
+  type Plugin,
+  getCurrentInstance,
+  inject,
+  provide,
+} from 'vue'
+import { applyDefaults, isPlainObject } from '../shared'
+import type { UseActionBaseOptions } from '../composables/useAction'
+import { actionRegistry } from '../composables/useAction/registry'
+import { setupActionDevtools } from '../composables/useAction/devtools'
+import type { UseComboboxOptions } from '../composables/useCombobox'
+import type { UsePaginationOptions } from '../composables/usePagination'
+import type { UsePollingOptions } from '../composables/usePolling'
+import type { UseQueryOptions } from '../composables/useQuery'
+import type { UseQueryStateOptions } from '../composables/useQueryState'
+import type { UseRemoteSearchOptions } from '../composables/useRemoteSearch'
+import type { UseSearchOptions } from '../composables/useSearch'
+import type { UseSearchHistoryOptions } from '../composables/useSearchHistory'
+import type { UseSortOptions } from '../composables/useSort'
+
+/**
+ * Defaults for the options of `useSearch`.
+ */
+export type SearchConfig = Pick<
+  UseSearchOptions<unknown>,
+  | 'caseSensitive'
+  | 'strict'
+  | 'trim'
+  | 'ignoreDiacritics'
+  | 'normalizeUnicode'
+  | 'locale'
+  | 'normalizers'
+  | 'mode'
+  | 'threshold'
+  | 'syntax'
+  | 'sort'
+  | 'indexed'
+  | 'worker'
+>
+
+/**
+ * Defaults for the options of `useRemoteSearch`.
+ */
+export type RemoteSearchConfig = Pick<
+  UseRemoteSearchOptions,
+  'debounce' | 'minLength' | 'emptyQuery' | 'trim'
+>
+
+/**
+ * Defaults for the options of `useQuery`.
+ */
+export type QueryConfig = Pick<UseQueryOptions, 'staleTime' | 'cacheTime'>
+
+/**
+ * Defaults for the options of `usePolling`.
+ */
+export type PollingConfig = Pick<
+  UsePollingOptions,
+  'pauseWhenHidden' | 'pauseWhenOffline' | 'backoff'
+>
+
+/**
+ * Defaults for the options of `useQueryState`.
+ */
+export type QueryStateConfig = Pick<
+  UseQueryStateOptions<unknown>,
+  'mode' | 'debounce' | 'adapter'
+>
+
+/**
+ * Defaults for the options of `useCombobox`.
+ */
+export type ComboboxConfig = Pick<
+  UseComboboxOptions<unknown>,
+  'wrap' | 'autoActivate' | 'scrollIntoView'
+>
+
+/**
+ * App-wide defaults for the options of the composables, grouped by
+ * composable. Options that are passed to a composable take precedence.
+ */
+export interface VueUIConfig {
+  /**
+   * Defaults for `useAction`, and for `useQuery`, `useForm`,
+   * `useRemoteSearch` and `usePolling`, which execute their requests through
+   * `useAction`.
+   * Applies in addition to the base options of `createUseAction`, which take
+   * precedence. Hooks and middleware run before those of the base options.
+   * `parseError` must return strings, the default error type of the
+   * composables. Use `createUseAction` for other error types.
+   */
+  action?: UseActionBaseOptions<string>
+  query?: QueryConfig
+  polling?: PollingConfig
+  search?: SearchConfig
+  remoteSearch?: RemoteSearchConfig
+  searchHistory?: UseSearchHistoryOptions
+  sort?: Pick<UseSortOptions<unknown>, 'locale'>
+  pagination?: Pick<UsePaginationOptions, 'pageSize'>
+  queryState?: QueryStateConfig
+  combobox?: ComboboxConfig
+
+  /**
+   * Adds an inspector and a timeline layer for the runs of registered actions
+   * to the Vue Devtools. Has no effect if the Vue Devtools are not installed.
+   * Enable it in development only, e.g. `devtools: import.meta.env.DEV`.
+   *
+   * @default false
+   */
+  devtools?: boolean
+}
+
+/**
+ * Injection key of the {@link VueUIConfig}.
+ */
+export const VueUIConfigKey: InjectionKey<VueUIConfig> = Symbol('VueUIConfig')
+
+const emptyConfig: VueUIConfig = {}
+
+/**
+ * Creates a plugin that provides app-wide defaults to all composables that
+ * are called within components of the app.
+ *
+ * @example
+ * ```ts
+ * app.use(
+ *   createVueUI({
+ *     action: { parseError: (error) => translate(error.message) },
+ *     search: { trim: true, ignoreDiacritics: true },
+ *     pagination: { pageSize: 50 },
+ *   }),
+ * )
+ * ```
+ */
+export function createVueUI(config: VueUIConfig = {}): Plugin {
+  return {
+    install(app) {
+      app.provide(VueUIConfigKey, config)
+
+      if (config.devtools && typeof window !== 'undefined') {
+        setupActionDevtools(app, config.action?.registry ?? actionRegistry)
+      }
+    },
+  }
+}
+
+/**
+ * Overrides the provided config for the descendants of the current
+ * component. The config is merged per composable with the config of the
+ * parent, so that only the given options are overridden.
+ *
+ * Must be called in `setup`. Composables called in the same component are
+ * not affected, use the `VueUIConfigProvider` component instead.
+ */
+export function provideVueUIConfig(config: VueUIConfig) {
+  provide(VueUIConfigKey, mergeConfig(useVueUIConfig(), config))
+}
+
+/**
+ * Returns the config that is provided to the current component. Returns an
+ * empty config outside of components, so that composables work standalone.
+ */
+export function useVueUIConfig(): VueUIConfig {
+  return getCurrentInstance()
+    ? inject(VueUIConfigKey, emptyConfig)
+    : emptyConfig
+}
+
+function mergeConfig(parent: VueUIConfig, config: VueUIConfig) {
+  const merged: Record<string, unknown> = { ...parent }
+  for (const [name, value] of Object.entries(config)) {
+    merged[name] = isPlainObject(value)
+      ? applyDefaults(value, merged[name] as object | undefined)
+      : value
+  }
+  return merged as VueUIConfig
+}
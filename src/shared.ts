@@ -14,3 +14,34 @@ export type StringOf<T> = string & T
 export function forceArray<T>(value: T | T[]) {
   return Array.isArray(value) ? value : [value]
 }
+
+/**
+ * Checks whether the value is a plain object, i.e. not an array, class
+ * instance or `null`.
+ */
+export function isPlainObject(value: unknown): value is Record<string, any> {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+
+  const prototype = Object.getPrototypeOf(value)
+  return prototype === Object.prototype || prototype === null
+}
+
+/**
+ * Returns the options with defaults for all options that are `undefined`.
+ * Unlike `defu`, values are not merged deeply, so that arrays and objects of
+ * the options replace the defaults.
+ */
+export function applyDefaults<T extends object>(
+  options: T | undefined,
+  defaults: Partial<T> | undefined,
+): T {
+  const merged: Record<string, unknown> = { ...defaults }
+  for (const [key, value] of Object.entries(options ?? {})) {
+    if (value !== undefined) {
+      merged[key] = value
+    }
+  }
+  return merged as T
+}
@@ -0,0 +1,59 @@
+type Listener = (event: any) => void
+
+/**
+ * In-process stand-in for a `Worker`. `setup` receives the global scope of the
+ * worker. Messages are cloned and delivered asynchronously, like messages of a
+ * real worker.
+ */
+export function createWorkerStandIn(setup: (scope: any) => void) {
+  const workerListeners: Listener[] = []
+  const listeners = new Map<string, Listener[]>()
+  let terminated = false
+
+  function emit(type: string, event: unknown) {
+    listeners.get(type)?.forEach((listener) => listener(event))
+  }
+
+  setup({
+    postMessage(message: unknown) {
+      const data = structuredClone(message)
+      setTimeout(() => !terminated && emit('message', { data }))
+    },
+    addEventListener(_: 'message', listener: Listener) {
+      workerListeners.push(listener)
+    },
+  })
+
+  return {
+    /**
+     * Messages that were posted to the worker.
+     */
+    messages: [] as any[],
+
+    terminated: () => terminated,
+
+    postMessage(message: unknown) {
+      const data = structuredClone(message)
+      this.messages.push(data)
+      setTimeout(
+        () => !terminated && workerListeners.forEach((l) => l({ data })),
+      )
+    },
+
+    addEventListener(type: string, listener: Listener) {
+      listeners.set(type, [...(listeners.get(type) ?? []), listener])
+    },
+
+    terminate() {
+      terminated = true
+    },
+
+    /**
+     * Emits an `error` event, as if the worker crashed.
+     */
+    crash(error = new Error('worker crashed')) {
+      terminated = true
+      emit('error', error)
+    },
+  }
+}